@@ -0,0 +1,148 @@
+/**
+ * Benchmarks a draw on a 1,000,000-ticket pool: `npm run bench`.
+ *
+ * The steps that run on the main thread while a draw is on screen must each
+ * fit well inside a frame-friendly budget; the selection and the check of the
+ * pool against a published commitment run in the draw worker and are reported
+ * for reference. Saving the event once the winners are in also runs on the
+ * main thread and is reported separately, for a sequential and a shuffled
+ * pool: a pool without runs of consecutive numbers does not compress. Exits
+ * non-zero when a step during the draw is over budget.
+ */
+import { Prize, TicketOwner } from '../src/types/raffle';
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  checkDraw,
+  createWeightOf,
+  removePositions,
+  sampleTickets,
+} from '../src/lib/drawEngine';
+import { DrawRequest, performDraw, toDrawMessage } from '../src/lib/drawRequest';
+import { canonicalPool, generateSeed, hashTicketPool } from '../src/lib/provablyFair';
+import { createRaffleStorage } from '../src/lib/raffleStorage';
+
+const POOL_SIZE = 1_000_000;
+const GROUP_SIZE = 10;
+// The page should answer input within 100ms
+const MAIN_THREAD_BUDGET_MS = 100;
+
+const tickets = Array.from({ length: POOL_SIZE }, (_, i) => String(i + 1).padStart(7, '0'));
+const prizes: Prize[] = Array.from({ length: GROUP_SIZE }, (_, i) => ({
+  id: `prize-${i}`,
+  name: `Prize ${i + 1}`,
+  category: 'A',
+  isAssigned: false,
+}));
+// A thousand owners of a hundred tickets each, with eligibility limits on
+const owners: TicketOwner[] = Array.from({ length: 1000 }, (_, i) => ({
+  id: `owner-${i}`,
+  name: `Owner ${i + 1}`,
+  ticketNumbers: tickets.slice(i * 100, (i + 1) * 100),
+  weight: i % 10 === 0 ? 3 : 1,
+}));
+
+const request: DrawRequest = {
+  pool: tickets,
+  prizes,
+  category: 'A',
+  groupSize: GROUP_SIZE,
+  ticketWeights: {},
+  owners,
+  rules: { ...DEFAULT_ELIGIBILITY_RULES, maxWinsPerOwner: 1, removeOwnerTicketsOnWin: true },
+  priorResults: [],
+  alternatesPerPrize: 2,
+  prizeOrder: 'random',
+};
+
+const time = async (repeat: number, step: () => unknown) => {
+  const start = performance.now();
+  for (let i = 0; i < repeat; i++) await step();
+  return (performance.now() - start) / repeat;
+};
+
+type Thread = 'main' | 'worker' | 'main, after the draw';
+
+const rows: { step: string; ms: number; thread: Thread }[] = [];
+const measure = async (step: string, thread: Thread, repeat: number, run: () => unknown) => {
+  rows.push({ step, ms: await time(repeat, run), thread });
+};
+
+// Node has no localStorage; an in-memory one still pays for serializing the state
+const stored = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: key => stored.get(key) ?? null,
+  setItem: (key, value) => void stored.set(key, value),
+  removeItem: key => void stored.delete(key),
+} as Storage;
+
+// What the store persists: every event, each with its data
+const persistedState = (pool: string[]) => ({
+  state: { events: [{ id: 'event', name: 'Bench', data: { tickets: pool, prizes, owners } }] },
+  version: 1,
+});
+const storage = createRaffleStorage<ReturnType<typeof persistedState>['state']>();
+const weightOf = createWeightOf({}, owners);
+const fairness = {
+  seed: generateSeed(),
+  algorithm: 'sha256-sfc32-v2',
+  poolHash: await hashTicketPool(tickets, weightOf),
+};
+
+await measure('check the draw can run', 'main', 20, () => checkDraw(tickets, prizes, 'A', GROUP_SIZE));
+storage.setItem('bench', persistedState(tickets));
+await measure('start the draw (nothing new to save)', 'main', 20, () =>
+  storage.setItem('bench', persistedState(tickets))
+);
+await measure('animation frame (sample tickets)', 'main', 1000, () => sampleTickets(tickets, GROUP_SIZE));
+await measure('post the request to the worker', 'main', 5, () =>
+  structuredClone(toDrawMessage(request))
+);
+const { leavingPositions } = await performDraw(request);
+await measure('leave winners out of the pool', 'main', 10, () =>
+  removePositions(tickets, leavingPositions)
+);
+await measure('select winners (secure)', 'worker', 3, () => performDraw(request));
+await measure('check the pool against the commitment', 'worker', 3, () =>
+  hashTicketPool(canonicalPool(tickets), weightOf)
+);
+await measure('select winners (provably fair, with the check)', 'worker', 3, () =>
+  performDraw({ ...request, fairness })
+);
+const shuffledTickets = [...tickets];
+for (let i = shuffledTickets.length - 1; i > 0; i--) {
+  const j = Math.floor(Math.random() * (i + 1));
+  [shuffledTickets[i], shuffledTickets[j]] = [shuffledTickets[j], shuffledTickets[i]];
+}
+// A new pool array each time, as after a draw, so the write is never skipped
+await measure('save the event (sequential pool)', 'main, after the draw', 3, () =>
+  storage.setItem('bench', persistedState(tickets.slice(GROUP_SIZE)))
+);
+await measure('save the event (shuffled pool)', 'main, after the draw', 3, () =>
+  storage.setItem('bench', persistedState(shuffledTickets.slice(GROUP_SIZE)))
+);
+// What every animation frame used to cost
+const fullShuffleMs = await time(1, () =>
+  [...tickets].sort(() => Math.random() - 0.5).slice(0, GROUP_SIZE)
+);
+
+console.log(`Draw of ${GROUP_SIZE} winners from ${POOL_SIZE.toLocaleString('en')} tickets\n`);
+console.table(
+  rows.map(({ step, ms, thread }) => ({ step, 'avg ms': Number(ms.toFixed(2)), thread }))
+);
+console.log(`Before: shuffling the whole pool took ${fullShuffleMs.toFixed(0)}ms per animation frame`);
+
+const saves = rows.filter(r => r.thread === 'main, after the draw');
+console.log(
+  `Saving the event blocks the page for ${saves
+    .map(r => `${r.ms.toFixed(0)}ms (${r.step.replace(/.*\((.*)\)/, '$1')})`)
+    .join(' and ')} once the winners are in`
+);
+
+const slow = rows.filter(r => r.thread === 'main' && r.ms > MAIN_THREAD_BUDGET_MS);
+if (slow.length > 0) {
+  console.error(
+    `Over the ${MAIN_THREAD_BUDGET_MS}ms main-thread budget: ${slow.map(r => r.step).join(', ')}`
+  );
+  process.exit(1);
+}
+console.log(`Every main-thread step while the draw is on screen is within ${MAIN_THREAD_BUDGET_MS}ms`);
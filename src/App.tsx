@@ -4,41 +4,31 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { Layout } from "@/components/Layout";
+import { StorageRecoveryDialog } from "@/components/StorageRecoveryDialog";
 import Index from "./pages/Index";
 import TicketOwners from "./pages/TicketOwners";
+import Events from "./pages/Events";
+import Verify from "./pages/Verify";
+import Simulation from "./pages/Simulation";
+import TicketBooks from "./pages/TicketBooks";
+import Sales from "./pages/Sales";
+import Sellers from "./pages/Sellers";
 import NotFound from "./pages/NotFound";
-import { useTicketOwners } from "@/hooks/useTicketOwners";
 
 const queryClient = new QueryClient();
 
 function AppContent() {
-  const ticketOwnersState = useTicketOwners();
-
   return (
     <Layout>
       <Routes>
-        <Route
-          path="/"
-          element={
-            <Index
-              getOwnerByTicket={ticketOwnersState.getOwnerByTicket}
-              getAllTicketsFromOwners={ticketOwnersState.getAllTicketsFromOwners}
-            />
-          }
-        />
-        <Route
-          path="/ticket-owners"
-          element={
-            <TicketOwners
-              owners={ticketOwnersState.owners}
-              onAddOwner={ticketOwnersState.addOwner}
-              onUpdateOwner={ticketOwnersState.updateOwner}
-              onDeleteOwner={ticketOwnersState.deleteOwner}
-              onAddBulkOwners={ticketOwnersState.addBulkOwners}
-              onResetOwners={ticketOwnersState.resetOwners}
-            />
-          }
-        />
+        <Route path="/" element={<Index />} />
+        <Route path="/ticket-owners" element={<TicketOwners />} />
+        <Route path="/events" element={<Events />} />
+        <Route path="/verify" element={<Verify />} />
+        <Route path="/dry-run" element={<Simulation />} />
+        <Route path="/ticket-books" element={<TicketBooks />} />
+        <Route path="/sales" element={<Sales />} />
+        <Route path="/sellers" element={<Sellers />} />
         <Route path="*" element={<NotFound />} />
       </Routes>
     </Layout>
@@ -50,6 +40,7 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
+      <StorageRecoveryDialog />
       <BrowserRouter>
         <AppContent />
       </BrowserRouter>
@@ -1,4 +1,4 @@
-import { Home, Users } from "lucide-react";
+import { Archive, Banknote, BookOpen, CalendarDays, FlaskConical, Home, Printer, ShieldCheck, Users } from "lucide-react";
 import { NavLink, useLocation } from "react-router-dom";
 import {
   Sidebar,
@@ -6,25 +6,64 @@ import {
   SidebarGroup,
   SidebarGroupContent,
   SidebarGroupLabel,
+  SidebarHeader,
   SidebarMenu,
   SidebarMenuButton,
   SidebarMenuItem,
   useSidebar,
 } from "@/components/ui/sidebar";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useRaffleState } from "@/hooks/useRaffleState";
 import { cn } from "@/lib/utils";
 
 const menuItems = [
   { title: "Raffle Draw", url: "/", icon: Home },
   { title: "Ticket Owners", url: "/ticket-owners", icon: Users },
+  { title: "Events", url: "/events", icon: CalendarDays },
+  { title: "Verify Draw", url: "/verify", icon: ShieldCheck },
+  { title: "Dry Run", url: "/dry-run", icon: FlaskConical },
+  { title: "Ticket Books", url: "/ticket-books", icon: Printer },
+  { title: "Sales", url: "/sales", icon: Banknote },
+  { title: "Sellers", url: "/sellers", icon: BookOpen },
 ];
 
 export function AppSidebar() {
   const { state } = useSidebar();
   const collapsed = state === "collapsed";
   const location = useLocation();
+  const events = useRaffleState((s) => s.events);
+  const activeEventId = useRaffleState((s) => s.activeEventId);
+  const switchEvent = useRaffleState((s) => s.switchEvent);
+  const isDrawing = useRaffleState((s) => s.isDrawing);
 
   return (
     <Sidebar collapsible="icon">
+      {!collapsed && (
+        <SidebarHeader>
+          <SidebarGroupLabel>Event</SidebarGroupLabel>
+          <Select value={activeEventId} onValueChange={switchEvent} disabled={isDrawing}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {events.map((event) => (
+                <SelectItem key={event.id} value={event.id}>
+                  <span className="flex items-center gap-2">
+                    {event.isArchived && <Archive className="h-3 w-3 text-muted-foreground" />}
+                    {event.name}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </SidebarHeader>
+      )}
       <SidebarContent>
         <SidebarGroup>
           <SidebarGroupLabel>Navigation</SidebarGroupLabel>
@@ -0,0 +1,19 @@
+import { Archive } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useRaffleState } from "@/hooks/useRaffleState";
+
+export function ArchivedEventAlert() {
+  const activeEvent = useRaffleState((s) => s.getActiveEvent());
+
+  if (!activeEvent?.isArchived) return null;
+
+  return (
+    <Alert>
+      <Archive className="h-4 w-4" />
+      <AlertTitle>{activeEvent.name} is archived</AlertTitle>
+      <AlertDescription>
+        This event is read-only. Unarchive it from the Events page to make changes.
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -1,5 +1,6 @@
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { AppSidebar } from "@/components/AppSidebar";
+import { StorageWriteAlert } from "@/components/StorageWriteAlert";
 import { Ticket } from "lucide-react";
 
 interface LayoutProps {
@@ -21,6 +22,7 @@ export function Layout({ children }: LayoutProps) {
               <span className="font-semibold">Raffle System</span>
             </div>
           </header>
+          <StorageWriteAlert />
           <main className="flex-1">
             {children}
           </main>
@@ -0,0 +1,52 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useRaffleState } from "@/hooks/useRaffleState";
+import { format } from "date-fns";
+
+export function StorageRecoveryDialog() {
+  const storageRecovery = useRaffleState(state => state.storageRecovery);
+  const dismissStorageRecovery = useRaffleState(state => state.dismissStorageRecovery);
+
+  const downloadBackup = () => {
+    if (!storageRecovery) return;
+    const blob = new Blob([storageRecovery.raw], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `raffle-backup-${format(new Date(), "yyyy-MM-dd-HHmmss")}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <AlertDialog open={storageRecovery !== null}>
+      <AlertDialogContent>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Saved raffle data could not be loaded</AlertDialogTitle>
+          <AlertDialogDescription>
+            {storageRecovery?.error}. A copy of the unreadable data has been kept so it
+            can be downloaded and repaired. Nothing is saved until you start fresh, which
+            discards that copy.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={downloadBackup}>Download Backup</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={dismissStorageRecovery}
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+          >
+            Start Fresh
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -0,0 +1,21 @@
+import { AlertTriangle } from "lucide-react";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { useRaffleState } from "@/hooks/useRaffleState";
+
+export function StorageWriteAlert() {
+  const storageWriteError = useRaffleState((s) => s.storageWriteError);
+
+  if (!storageWriteError) return null;
+
+  return (
+    <Alert variant="destructive" className="rounded-none border-x-0 border-t-0">
+      <AlertTriangle className="h-4 w-4" />
+      <AlertTitle>Changes are not being saved</AlertTitle>
+      <AlertDescription>
+        The browser refused to store the raffle data ({storageWriteError}). Changes are kept
+        until this page is closed or reloaded. Export results now, or free up space by deleting
+        archived events or tickets.
+      </AlertDescription>
+    </Alert>
+  );
+}
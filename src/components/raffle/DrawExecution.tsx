@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import {
   Select,
@@ -9,23 +10,80 @@ import {
   SelectTrigger,
   SelectValue,
 } from '@/components/ui/select';
-import { Sparkles, AlertCircle, Trophy, User } from 'lucide-react';
-import { Category, GroupSize, DrawResult, Prize, TicketOwner } from '@/types/raffle';
+import { Switch } from '@/components/ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import {
+  Sparkles,
+  AlertCircle,
+  Gift,
+  Trophy,
+  User,
+  ShieldCheck,
+  Download,
+  UserX,
+  ChevronDown,
+  ChevronLeft,
+  ChevronRight,
+  Ban,
+  RefreshCw,
+} from 'lucide-react';
+import { EligibilityRules } from '@/components/raffle/EligibilityRules';
+import { VoidResultDialog } from '@/components/raffle/VoidResultDialog';
+import { DrawProgramme } from '@/components/raffle/DrawProgramme';
+import { PrizeReveal } from '@/components/raffle/PrizeReveal';
+import { EliminationDraw } from '@/components/raffle/EliminationDraw';
+import {
+  Category,
+  GroupSize,
+  DrawResult,
+  Prize,
+  TicketOwner,
+  DrawCommitment,
+  DrawHistoryEntry,
+  DrawOptions,
+  DrawRound,
+  EliminationGame,
+  EliminationSetup,
+  PrizeOrder,
+  VoidOptions,
+  EligibilityRules as Rules,
+} from '@/types/raffle';
 import { cn } from '@/lib/utils';
+import { canonicalPoolLines } from '@/lib/provablyFair';
+import { PRIZE_ORDER_LABELS, WeightOf, orderPrizes } from '@/lib/drawEngine';
+import { cryptoRandom, randomIndex } from '@/lib/random';
+import { ownerContact } from '@/lib/ownerProfile';
+import { useToast } from '@/hooks/use-toast';
 
 interface DrawExecutionProps {
   tickets: string[];
   categories: Category[];
+  prizes: Prize[];
   getAvailablePrizes: (category: Category) => Prize[];
   isDrawing: boolean;
   currentResults: DrawResult[];
   onExecuteDraw: (
     category: Category,
     groupSize: GroupSize,
-    onAnimationTick?: (tickets: string[]) => void
+    options?: DrawOptions
   ) => Promise<DrawResult[]>;
   onClearResults: () => void;
+  onVoidResult: (resultId: string, reason: string, options: VoidOptions) => DrawResult | null;
   getOwnerByTicket: (ticketNumber: string) => TicketOwner | undefined;
+  weightOf: WeightOf;
+  pendingCommitment?: DrawCommitment | null;
+  lastEntry?: DrawHistoryEntry;
+  eligibilityRules: Rules;
+  onChangeEligibilityRules: (rules: Partial<Rules>) => void;
+  onPublishCommitment: () => Promise<DrawCommitment | null>;
+  onDiscardCommitment: () => void;
+  programme: DrawRound[];
+  onChangeProgramme: (programme: DrawRound[]) => void;
+  elimination: EliminationGame | null;
+  onStartElimination: (setup: EliminationSetup) => boolean;
+  onRunEliminationRound: () => DrawResult[];
+  onCloseElimination: () => void;
 }
 
 const CATEGORY_COLORS: Record<string, string> = {
@@ -42,51 +100,200 @@ const getCategoryColor = (category: string) => {
   return `bg-[hsl(${hue},70%,50%)] text-white`;
 };
 
-const groupSizes = [1, 2, 3, 4, 5];
+const alternateCounts = [0, 1, 2, 3, 4, 5];
+
+// Beyond this many winners results switch to a compact, paginated grid
+const COMPACT_RESULTS_THRESHOLD = 4;
+const RESULTS_PAGE_SIZE = 12;
+const MAX_ANIMATED_TICKETS = 12;
+
+const REVEAL_ORDERS: PrizeOrder[] = ['ascending', 'fixed', 'random'];
+
+type DrawMode = 'single' | 'programme' | 'reveal' | 'elimination';
 
 export function DrawExecution({
   tickets,
   categories,
+  prizes,
   getAvailablePrizes,
   isDrawing,
   currentResults,
   onExecuteDraw,
   onClearResults,
+  onVoidResult,
   getOwnerByTicket,
+  weightOf,
+  pendingCommitment,
+  lastEntry,
+  eligibilityRules,
+  onChangeEligibilityRules,
+  onPublishCommitment,
+  onDiscardCommitment,
+  programme,
+  onChangeProgramme,
+  elimination,
+  onStartElimination,
+  onRunEliminationRound,
+  onCloseElimination,
 }: DrawExecutionProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<DrawMode>(elimination ? 'elimination' : 'single');
   const [selectedCategory, setSelectedCategory] = useState<Category>(categories[0] || 'A');
   const [selectedGroupSize, setSelectedGroupSize] = useState<GroupSize>(1);
+  const [drawAllRemaining, setDrawAllRemaining] = useState(false);
+  const [resultsPage, setResultsPage] = useState(0);
+  const [alternatesPerPrize, setAlternatesPerPrize] = useState(0);
+  const [prizeOrder, setPrizeOrder] = useState<PrizeOrder>('fixed');
+  const [manualPrizeIds, setManualPrizeIds] = useState<string[]>([]);
   const [animatingTickets, setAnimatingTickets] = useState<string[]>([]);
+  const [voidingResult, setVoidingResult] = useState<DrawResult | null>(null);
+  const [revealCategory, setRevealCategory] = useState<Category>(categories[0] || 'A');
+  const [revealOrder, setRevealOrder] = useState<PrizeOrder>('ascending');
+  const [revealPrize, setRevealPrize] = useState<Prize | null>(null);
+  const [revealResult, setRevealResult] = useState<DrawResult | null>(null);
 
   const availablePrizes = getAvailablePrizes(selectedCategory);
-  const canDraw = tickets.length >= selectedGroupSize && availablePrizes.length >= selectedGroupSize;
+  const maxGroupSize = Math.max(availablePrizes.length, 1);
+  const groupSize = drawAllRemaining ? availablePrizes.length : selectedGroupSize;
+  // Manual picks of prizes that are no longer available are ignored
+  const pickedPrizeIds = Array.from({ length: groupSize }, (_, i) =>
+    availablePrizes.some((p) => p.id === manualPrizeIds[i]) ? manualPrizeIds[i] : undefined
+  );
+  const manualPicksComplete =
+    prizeOrder !== 'manual' ||
+    (pickedPrizeIds.every(Boolean) && new Set(pickedPrizeIds).size === groupSize);
+  const canDraw =
+    groupSize > 0 &&
+    tickets.length >= groupSize &&
+    availablePrizes.length >= groupSize &&
+    manualPicksComplete;
 
   const getDisabledReason = () => {
-    if (tickets.length < selectedGroupSize) {
-      return `Need ${selectedGroupSize - tickets.length} more tickets`;
+    if (groupSize === 0) {
+      return `No prizes left in Category ${selectedCategory}`;
     }
-    if (availablePrizes.length < selectedGroupSize) {
-      return `Need ${selectedGroupSize - availablePrizes.length} more prizes in Category ${selectedCategory}`;
+    if (tickets.length < groupSize) {
+      return `Need ${groupSize - tickets.length} more tickets`;
+    }
+    if (availablePrizes.length < groupSize) {
+      return `Need ${groupSize - availablePrizes.length} more prizes in Category ${selectedCategory}`;
+    }
+    if (!manualPicksComplete) {
+      return 'Pick a different prize for every winner';
     }
     return null;
   };
 
-  const handleDraw = async () => {
-    if (!canDraw || isDrawing) return;
-    
+  const handleGroupSizeChange = (value: string) => {
+    const size = parseInt(value);
+    setSelectedGroupSize(isNaN(size) ? 1 : Math.min(Math.max(size, 1), maxGroupSize));
+  };
+
+  const handleManualPrizeChange = (index: number, prizeId: string) => {
+    setManualPrizeIds((ids) => {
+      const next = [...ids];
+      next[index] = prizeId;
+      return next;
+    });
+  };
+
+  const startDraw = async (category: Category, size: GroupSize, options: DrawOptions) => {
     onClearResults();
     setAnimatingTickets([]);
+    setResultsPage(0);
     
-    await onExecuteDraw(
-      selectedCategory,
-      selectedGroupSize,
-      (shuffled) => setAnimatingTickets(shuffled)
-    );
+    let results: DrawResult[] = [];
+    try {
+      results = await onExecuteDraw(category, size, {
+        ...options,
+        onAnimationTick: (shuffled) => setAnimatingTickets(shuffled),
+      });
+    } catch (error) {
+      toast({
+        title: 'Draw aborted',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
     
     setAnimatingTickets([]);
+    return results;
+  };
+
+  const handleDraw = async () => {
+    if (!canDraw || isDrawing) return;
+    await startDraw(selectedCategory, groupSize, {
+      alternatesPerPrize,
+      prizeOrder,
+      prizeIds: prizeOrder === 'manual' ? pickedPrizeIds : undefined,
+    });
+  };
+
+  const handleRunRound = (round: DrawRound) =>
+    startDraw(round.category, round.groupSize, { roundId: round.id });
+
+  // Prize-first mode: announce the next prize, then draw one ticket for it
+  const announceNextPrize = () => {
+    const [next] = orderPrizes(
+      getAvailablePrizes(revealCategory),
+      revealCategory,
+      revealOrder,
+      (n) => randomIndex(cryptoRandom, n)
+    );
+    setRevealPrize(next ?? null);
+    setRevealResult(null);
+  };
+
+  const handleRevealDraw = async () => {
+    if (!revealPrize || isDrawing) return;
+    const [result] = await startDraw(revealCategory, 1, {
+      prizeOrder: 'manual',
+      prizeIds: [revealPrize.id],
+    });
+    if (result) {
+      setRevealResult(result);
+    } else {
+      setRevealPrize(null);
+      toast({
+        title: 'No ticket drawn',
+        description: 'No eligible ticket is left for this prize',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleFairModeChange = async (enabled: boolean) => {
+    if (enabled) {
+      await onPublishCommitment();
+    } else {
+      onDiscardCommitment();
+    }
+  };
+
+  const downloadPool = () => {
+    const blob = new Blob([canonicalPoolLines(tickets, weightOf).join('\n')], { type: 'text/plain' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `raffle-pool-${pendingCommitment?.poolHash.slice(0, 12)}.txt`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   const disabledReason = getDisabledReason();
+  const drawnCount = currentResults.filter((r) => !r.replacesId).length;
+  const compactResults = currentResults.length > COMPACT_RESULTS_THRESHOLD;
+  const pageCount = compactResults ? Math.ceil(currentResults.length / RESULTS_PAGE_SIZE) : 1;
+  // Voiding adds a replacement result, which can add a page
+  const page = Math.min(resultsPage, pageCount - 1);
+  const visibleResults = compactResults
+    ? currentResults.slice(page * RESULTS_PAGE_SIZE, (page + 1) * RESULTS_PAGE_SIZE)
+    : currentResults;
+  const activeRuleCount = [
+    eligibilityRules.maxWinsPerOwner !== null,
+    eligibilityRules.maxWinsPerOwnerPerCategory !== null,
+    eligibilityRules.removeOwnerTicketsOnWin,
+  ].filter(Boolean).length;
 
   return (
     <Card className="h-full">
@@ -97,96 +304,351 @@ export function DrawExecution({
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
-        {/* Configuration */}
-        <div className="grid grid-cols-2 gap-4">
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Category</label>
-            <Select
-              value={selectedCategory}
-              onValueChange={(v: string) => setSelectedCategory(v as Category)}
-              disabled={isDrawing}
-            >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {categories.map((cat) => (
-                  <SelectItem key={cat} value={cat}>
-                    <span className="flex items-center gap-2">
-                      <span className={cn('w-2 h-2 rounded-full', getCategoryColor(cat))} />
-                      Category {cat} ({getAvailablePrizes(cat).length} prizes)
+        <Tabs value={mode} onValueChange={(v) => setMode(v as DrawMode)}>
+          <TabsList className="w-full">
+            <TabsTrigger value="single" className="flex-1" disabled={isDrawing}>
+              Single Draw
+            </TabsTrigger>
+            <TabsTrigger value="programme" className="flex-1" disabled={isDrawing}>
+              Programme
+            </TabsTrigger>
+            <TabsTrigger value="reveal" className="flex-1" disabled={isDrawing}>
+              Prize Reveal
+            </TabsTrigger>
+            <TabsTrigger value="elimination" className="flex-1" disabled={isDrawing}>
+              Elimination
+            </TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="single" className="space-y-4">
+            {/* Configuration */}
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Category</label>
+                <Select
+                  value={selectedCategory}
+                  onValueChange={(v: string) => setSelectedCategory(v as Category)}
+                  disabled={isDrawing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((cat) => (
+                      <SelectItem key={cat} value={cat}>
+                        <span className="flex items-center gap-2">
+                          <span className={cn('w-2 h-2 rounded-full', getCategoryColor(cat))} />
+                          Category {cat} ({getAvailablePrizes(cat).length} prizes)
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Group Size</label>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={maxGroupSize}
+                    value={groupSize}
+                    onChange={(e) => handleGroupSizeChange(e.target.value)}
+                    disabled={isDrawing || drawAllRemaining}
+                  />
+                  <Button
+                    variant={drawAllRemaining ? 'default' : 'outline'}
+                    onClick={() => setDrawAllRemaining(!drawAllRemaining)}
+                    disabled={isDrawing}
+                    title={`Draw all remaining prizes in Category ${selectedCategory}`}
+                  >
+                    All
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Alternates</label>
+                <Select
+                  value={alternatesPerPrize.toString()}
+                  onValueChange={(v) => setAlternatesPerPrize(parseInt(v))}
+                  disabled={isDrawing}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {alternateCounts.map((count) => (
+                      <SelectItem key={count} value={count.toString()}>
+                        {count === 0 ? 'None' : `${count} per prize`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {/* Prize Order */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium">Prize order</label>
+              <Select
+                value={prizeOrder}
+                onValueChange={(v) => setPrizeOrder(v as PrizeOrder)}
+                disabled={isDrawing}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(PRIZE_ORDER_LABELS) as PrizeOrder[]).map((order) => (
+                    <SelectItem key={order} value={order}>
+                      {PRIZE_ORDER_LABELS[order]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {prizeOrder === 'ascending' && !availablePrizes.some((p) => p.rank) && (
+                <p className="text-xs text-muted-foreground">
+                  No prize in Category {selectedCategory} is ranked yet, so prizes go out in the order
+                  they were added. Set ranks in Prize Management.
+                </p>
+              )}
+              {prizeOrder === 'manual' &&
+                pickedPrizeIds.map((prizeId, index) => (
+                  <div key={index} className="flex items-center gap-2">
+                    <span className="text-xs text-muted-foreground w-20 shrink-0">
+                      Winner {index + 1}
                     </span>
-                  </SelectItem>
+                    <Select
+                      value={prizeId ?? ''}
+                      onValueChange={(v) => handleManualPrizeChange(index, v)}
+                      disabled={isDrawing}
+                    >
+                      <SelectTrigger className="h-8">
+                        <SelectValue placeholder="Choose a prize" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {availablePrizes
+                          .filter((p) => p.id === prizeId || !pickedPrizeIds.includes(p.id))
+                          .map((prize) => (
+                            <SelectItem key={prize.id} value={prize.id}>
+                              {prize.name}
+                              {prize.rank ? ` (rank ${prize.rank})` : ''}
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 ))}
-              </SelectContent>
-            </Select>
-          </div>
-          <div className="space-y-2">
-            <label className="text-sm font-medium">Group Size</label>
-            <Select
-              value={selectedGroupSize.toString()}
-              onValueChange={(v) => setSelectedGroupSize(parseInt(v) as GroupSize)}
-              disabled={isDrawing}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="programme">
+            <DrawProgramme
+              programme={programme}
+              categories={categories}
+              tickets={tickets}
+              getAvailablePrizes={getAvailablePrizes}
+              isDrawing={isDrawing}
+              onChangeProgramme={onChangeProgramme}
+              onRunRound={handleRunRound}
+            />
+          </TabsContent>
+
+          <TabsContent value="reveal" className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Category</label>
+                <Select value={revealCategory} onValueChange={(v) => setRevealCategory(v as Category)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map((cat) => (
+                      <SelectItem key={cat} value={cat}>
+                        Category {cat} ({getAvailablePrizes(cat).length} prizes)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Prize order</label>
+                <Select value={revealOrder} onValueChange={(v) => setRevealOrder(v as PrizeOrder)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REVEAL_ORDERS.map((order) => (
+                      <SelectItem key={order} value={order}>
+                        {PRIZE_ORDER_LABELS[order]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Each prize is announced full-screen before a single ticket is drawn for it.
+            </p>
+            <Button
+              onClick={announceNextPrize}
+              disabled={
+                isDrawing || tickets.length === 0 || getAvailablePrizes(revealCategory).length === 0
+              }
+              className="w-full h-16 text-xl font-bold"
             >
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {groupSizes.map((size) => (
-                  <SelectItem key={size} value={size.toString()}>
-                    {size} winner{size > 1 ? 's' : ''}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-        </div>
+              <Gift className="h-6 w-6 mr-2" />
+              START PRIZE REVEAL
+            </Button>
+          </TabsContent>
 
-        {/* Draw Button */}
+          <TabsContent value="elimination">
+            <EliminationDraw
+              game={elimination}
+              prizes={prizes}
+              availablePrizes={categories.flatMap((cat) => getAvailablePrizes(cat))}
+              ticketCount={tickets.length}
+              onStart={onStartElimination}
+              onRunRound={onRunEliminationRound}
+              onClose={onCloseElimination}
+              getOwnerByTicket={getOwnerByTicket}
+            />
+          </TabsContent>
+        </Tabs>
+
+        <PrizeReveal
+          prize={revealPrize}
+          result={revealResult}
+          owner={revealResult ? getOwnerByTicket(revealResult.ticketNumber) : undefined}
+          isDrawing={isDrawing}
+          animatingTicket={animatingTickets[0]}
+          prizesLeft={getAvailablePrizes(revealCategory).length}
+          categoryColor={getCategoryColor(revealCategory)}
+          onDraw={handleRevealDraw}
+          onNext={announceNextPrize}
+          onClose={() => setRevealPrize(null)}
+        />
+
+        {/* Eligibility Rules */}
+        <Collapsible className="rounded-lg border">
+          <CollapsibleTrigger className="flex w-full items-center justify-between p-3 text-sm font-medium">
+            <span className="flex items-center gap-2">
+              <UserX className="h-4 w-4 text-primary" />
+              Eligibility rules
+              {activeRuleCount > 0 && (
+                <Badge variant="secondary" className="text-xs">
+                  {activeRuleCount} active
+                </Badge>
+              )}
+            </span>
+            <ChevronDown className="h-4 w-4 text-muted-foreground" />
+          </CollapsibleTrigger>
+          <CollapsibleContent className="px-3 pb-3">
+            <EligibilityRules
+              rules={eligibilityRules}
+              onChange={onChangeEligibilityRules}
+              disabled={isDrawing}
+            />
+          </CollapsibleContent>
+        </Collapsible>
+
+        {/* Provably Fair */}
         <div className="space-y-2">
-          <Button
-            onClick={handleDraw}
-            disabled={!canDraw || isDrawing}
-            className={cn(
-              'w-full h-16 text-xl font-bold transition-all',
-              canDraw && !isDrawing 
-                ? 'bg-primary hover:bg-primary/90 hover:scale-[1.02]' 
-                : ''
-            )}
-          >
-            {isDrawing ? (
-              <span className="flex items-center gap-2">
-                <span className="animate-spin-slow">🎰</span>
-                Drawing...
-              </span>
-            ) : (
-              <span className="flex items-center gap-2">
-                <Trophy className="h-6 w-6" />
-                DRAW {selectedGroupSize} WINNER{selectedGroupSize > 1 ? 'S' : ''}
-              </span>
-            )}
-          </Button>
-          {disabledReason && (
-            <div className="flex items-center gap-2 text-sm text-destructive">
-              <AlertCircle className="h-4 w-4" />
-              {disabledReason}
+          <div className="flex items-center justify-between p-3 rounded-lg border">
+            <div>
+              <label className="text-sm font-medium flex items-center gap-2">
+                <ShieldCheck className="h-4 w-4 text-primary" />
+                Provably fair
+              </label>
+              <p className="text-xs text-muted-foreground">
+                Publish a seed commitment and pool hash before drawing
+              </p>
+            </div>
+            <Switch
+              checked={!!pendingCommitment}
+              onCheckedChange={handleFairModeChange}
+              disabled={isDrawing}
+            />
+          </div>
+          {pendingCommitment && (
+            <div className="p-3 rounded-lg bg-muted/30 text-xs space-y-1">
+              <div className="break-all">
+                <span className="text-muted-foreground">Commitment: </span>
+                <span className="font-mono">{pendingCommitment.commitment}</span>
+              </div>
+              <div className="break-all">
+                <span className="text-muted-foreground">Pool hash: </span>
+                <span className="font-mono">{pendingCommitment.poolHash}</span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-muted-foreground">
+                  {pendingCommitment.poolSize} tickets • {pendingCommitment.algorithm}
+                </span>
+                <Button variant="ghost" size="sm" onClick={downloadPool}>
+                  <Download className="h-3 w-3 mr-1" />
+                  Pool
+                </Button>
+              </div>
             </div>
           )}
         </div>
 
+        {/* Draw Button */}
+        {mode === 'single' && (
+          <div className="space-y-2">
+            <Button
+              onClick={handleDraw}
+              disabled={!canDraw || isDrawing}
+              className={cn(
+                'w-full h-16 text-xl font-bold transition-all',
+                canDraw && !isDrawing 
+                  ? 'bg-primary hover:bg-primary/90 hover:scale-[1.02]' 
+                  : ''
+              )}
+            >
+              {isDrawing ? (
+                <span className="flex items-center gap-2">
+                  <span className="animate-spin-slow">🎰</span>
+                  Drawing...
+                </span>
+              ) : (
+                <span className="flex items-center gap-2">
+                  <Trophy className="h-6 w-6" />
+                  DRAW {drawAllRemaining ? 'ALL ' : ''}
+                  {groupSize} WINNER{groupSize > 1 ? 'S' : ''}
+                </span>
+              )}
+            </Button>
+            {disabledReason && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                {disabledReason}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Animation Display */}
         {isDrawing && animatingTickets.length > 0 && (
           <div className="p-4 rounded-lg bg-muted/50 border-2 border-dashed border-primary/30">
-            <div className="grid grid-cols-2 gap-2">
-              {animatingTickets.map((ticket, i) => (
+            <div className={cn('grid gap-2', animatingTickets.length > 4 ? 'grid-cols-4' : 'grid-cols-2')}>
+              {animatingTickets.slice(0, MAX_ANIMATED_TICKETS).map((ticket, i) => (
                 <div
                   key={i}
-                  className="p-3 bg-card rounded-lg text-center font-mono text-2xl font-bold shuffle-animation"
+                  className={cn(
+                    'bg-card rounded-lg text-center font-mono font-bold shuffle-animation',
+                    animatingTickets.length > 4 ? 'p-2 text-lg' : 'p-3 text-2xl'
+                  )}
                 >
                   {ticket}
                 </div>
               ))}
             </div>
+            {animatingTickets.length > MAX_ANIMATED_TICKETS && (
+              <div className="text-center text-xs text-muted-foreground mt-2">
+                Drawing {animatingTickets.length} winners…
+              </div>
+            )}
           </div>
         )}
 
@@ -202,40 +664,187 @@ export function DrawExecution({
                 Clear
               </Button>
             </div>
-            <div className="grid grid-cols-1 gap-3">
-              {currentResults.map((result, index) => {
+            <div className={cn('grid', compactResults ? 'grid-cols-2 xl:grid-cols-3 gap-2' : 'grid-cols-1 gap-3')}>
+              {visibleResults.map((result, index) => {
                 const owner = getOwnerByTicket(result.ticketNumber);
+                if (result.voided) {
+                  return (
+                    <div
+                      key={result.id}
+                      className={cn(
+                        'rounded-xl border border-dashed text-muted-foreground',
+                        compactResults ? 'p-2' : 'p-3'
+                      )}
+                    >
+                      <div className="flex items-center gap-2">
+                        <Ban className="h-4 w-4 text-destructive" />
+                        <span className="font-mono font-bold line-through">#{result.ticketNumber}</span>
+                        <span className="text-sm line-through">{result.prize.name}</span>
+                      </div>
+                      <div className="text-xs mt-1">
+                        Voided: {result.voided.reason}
+                        {result.voided.ticketReturned ? ' • ticket returned to pool' : ' • ticket excluded'}
+                      </div>
+                    </div>
+                  );
+                }
                 return (
                   <div
                     key={result.id}
-                    className="winner-card p-4 rounded-xl bg-gradient-to-r from-winner/10 to-winner/5 border-2 border-winner/30 animate-scale-in"
+                    className={cn(
+                      'winner-card rounded-xl bg-gradient-to-r from-winner/10 to-winner/5 border-2 border-winner/30 animate-scale-in',
+                      compactResults ? 'p-2' : 'p-4'
+                    )}
                     style={{ animationDelay: `${index * 150}ms` }}
                   >
-                    <div className="flex items-center justify-between">
-                      <div>
-                        <div className="text-3xl font-bold font-mono text-foreground">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="min-w-0">
+                        {result.replacesId && (
+                          <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                            <RefreshCw className="h-3 w-3" />
+                            {result.promotedAlternate
+                              ? `Promoted alternate #${result.promotedAlternate}`
+                              : 'Replacement winner'}
+                          </div>
+                        )}
+                        <div
+                          className={cn(
+                            'font-bold font-mono text-foreground',
+                            compactResults ? 'text-xl' : 'text-3xl'
+                          )}
+                        >
                           #{result.ticketNumber}
                         </div>
                         {owner && (
                           <div className="flex items-center gap-1 text-sm text-primary mt-1">
-                            <User className="h-4 w-4" />
-                            <span className="font-medium">{owner.name}</span>
+                            <User className="h-4 w-4 shrink-0" />
+                            <span className="font-medium truncate">{owner.name}</span>
                           </div>
                         )}
-                        <div className="text-lg font-medium text-muted-foreground mt-1">
+                        {owner && !compactResults && (ownerContact(owner) || owner.organisation) && (
+                          <div className="text-xs text-muted-foreground truncate">
+                            {[owner.organisation, ownerContact(owner)].filter(Boolean).join(' · ')}
+                          </div>
+                        )}
+                        <div
+                          className={cn(
+                            'font-medium text-muted-foreground mt-1',
+                            compactResults ? 'text-sm truncate' : 'text-lg'
+                          )}
+                        >
                           {result.prize.name}
                         </div>
+                        {result.alternates && (
+                          <div className="text-xs text-muted-foreground mt-1">
+                            Alternates:{' '}
+                            {result.alternates
+                              .map((a) => `#${a.rank} ${a.ticketNumber}${a.ownerName ? ` (${a.ownerName})` : ''}`)
+                              .join(', ')}
+                          </div>
+                        )}
                       </div>
-                      <Badge className={cn('text-sm', getCategoryColor(result.category))}>
-                        Category {result.category}
-                      </Badge>
+                      {compactResults ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 shrink-0 text-destructive hover:text-destructive"
+                          title="Void & redraw"
+                          onClick={() => setVoidingResult(result)}
+                        >
+                          <Ban className="h-3 w-3" />
+                        </Button>
+                      ) : (
+                        <div className="flex flex-col items-end gap-2">
+                          <Badge className={cn('text-sm', getCategoryColor(result.category))}>
+                            Category {result.category}
+                          </Badge>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="text-destructive hover:text-destructive"
+                            onClick={() => setVoidingResult(result)}
+                          >
+                            <Ban className="h-3 w-3 mr-1" />
+                            Void & Redraw
+                          </Button>
+                        </div>
+                      )}
                     </div>
                   </div>
                 );
               })}
             </div>
+            {pageCount > 1 && (
+              <div className="flex items-center justify-between text-sm text-muted-foreground">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setResultsPage(page - 1)}
+                  disabled={page === 0}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <span>
+                  Winners {page * RESULTS_PAGE_SIZE + 1}–
+                  {Math.min((page + 1) * RESULTS_PAGE_SIZE, currentResults.length)} of{' '}
+                  {currentResults.length}
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setResultsPage(page + 1)}
+                  disabled={page === pageCount - 1}
+                >
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            )}
+            {lastEntry && drawnCount < lastEntry.groupSize && (
+              <div className="flex items-center gap-2 text-sm text-destructive">
+                <AlertCircle className="h-4 w-4" />
+                Only {drawnCount} of {lastEntry.groupSize} prizes could be awarded:
+                no eligible tickets left
+              </div>
+            )}
+            {lastEntry?.skipped && lastEntry.skipped.length > 0 && (
+              <div className="p-3 rounded-lg bg-muted/30 text-xs space-y-1">
+                <div className="font-medium flex items-center gap-1">
+                  <UserX className="h-3 w-3" />
+                  {lastEntry.skipped.length} ticket{lastEntry.skipped.length > 1 ? 's' : ''} skipped
+                </div>
+                {lastEntry.skipped.map((skip) => (
+                  <div key={skip.ticketNumber} className="text-muted-foreground">
+                    <span className="font-mono">#{skip.ticketNumber}</span> — {skip.reason}
+                  </div>
+                ))}
+              </div>
+            )}
+            {currentResults.some((r) => r.removedTickets?.length) && (
+              <div className="p-3 rounded-lg bg-muted/30 text-xs text-muted-foreground space-y-1">
+                {currentResults
+                  .filter((r) => r.removedTickets?.length)
+                  .map((r) => (
+                    <div key={r.id}>
+                      Removed {r.removedTickets.length} other ticket
+                      {r.removedTickets.length > 1 ? 's' : ''} of {r.ownerName} after #{r.ticketNumber} won
+                    </div>
+                  ))}
+              </div>
+            )}
+            {lastEntry?.fairness && (
+              <div className="p-3 rounded-lg bg-muted/30 text-xs break-all">
+                <span className="text-muted-foreground">Revealed seed: </span>
+                <span className="font-mono">{lastEntry.fairness.seed}</span>
+              </div>
+            )}
           </div>
         )}
+
+        <VoidResultDialog
+          result={voidingResult}
+          onClose={() => setVoidingResult(null)}
+          onVoidResult={onVoidResult}
+        />
       </CardContent>
     </Card>
   );
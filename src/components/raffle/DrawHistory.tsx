@@ -1,18 +1,42 @@
+import { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Separator } from '@/components/ui/separator';
-import { History, Download, FileText, Clock, Trash2, User } from 'lucide-react';
-import { DrawHistoryEntry, Category, TicketOwner } from '@/types/raffle';
+import {
+  History,
+  Download,
+  FileText,
+  Clock,
+  Trash2,
+  User,
+  ShieldCheck,
+  Ban,
+  RefreshCw,
+} from 'lucide-react';
+import {
+  DrawHistoryEntry,
+  DrawRecordFile,
+  DrawResult,
+  VoidOptions,
+  Category,
+  TicketOwner,
+} from '@/types/raffle';
 import { cn } from '@/lib/utils';
 import { format } from 'date-fns';
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import { DRAW_RECORD_VERSION, toDrawRecord } from '@/lib/provablyFair';
+import { PRIZE_ORDER_LABELS, standingResults } from '@/lib/drawEngine';
+import { ownerContact } from '@/lib/ownerProfile';
+import { VoidResultDialog } from '@/components/raffle/VoidResultDialog';
 
 interface DrawHistoryProps {
   history: DrawHistoryEntry[];
   onReset: () => void;
+  readOnly?: boolean;
+  onVoidResult: (resultId: string, reason: string, options: VoidOptions) => DrawResult | null;
   getOwnerByTicket: (ticketNumber: string) => TicketOwner | undefined;
 }
 
@@ -30,11 +54,40 @@ const getCategoryColor = (category: string) => {
   return `bg-[hsl(${hue},70%,50%)] text-white`;
 };
 
-export function DrawHistory({ history, onReset, getOwnerByTicket }: DrawHistoryProps) {
+const resultStatus = (result: DrawResult, results: DrawResult[]) => {
+  if (result.voided) {
+    return `Voided: ${result.voided.reason} (ticket ${result.voided.ticketReturned ? 'returned' : 'excluded'})`;
+  }
+  if (result.replacesId) {
+    const original = results.find(r => r.id === result.replacesId);
+    const replaces = `Replaces #${original?.ticketNumber ?? '?'}`;
+    return result.promotedAlternate
+      ? `Alternate #${result.promotedAlternate}, ${replaces.toLowerCase()}`
+      : replaces;
+  }
+  return 'Winner';
+};
+
+const formatAlternates = (result: DrawResult) =>
+  result.alternates?.map(a => `${a.rank}: #${a.ticketNumber}`).join('; ') || '-';
+
+export function DrawHistory({
+  history,
+  onReset,
+  readOnly,
+  onVoidResult,
+  getOwnerByTicket,
+}: DrawHistoryProps) {
+  const [voidingResult, setVoidingResult] = useState<DrawResult | null>(null);
+
   const exportToCSV = () => {
     if (history.length === 0) return;
 
-    const rows = [['Draw #', 'Timestamp', 'Category', 'Ticket Number', 'Owner Name', 'Prize Name']];
+    const rows = [[
+      'Draw #', 'Timestamp', 'Category', 'Ticket Number', 'Owner Name', 'Owner Email',
+      'Owner Phone', 'Owner Organisation', 'Prize Name', 'Status',
+      'Alternates', 'Prize Order', 'Algorithm', 'Commitment', 'Pool Hash', 'Seed',
+    ]];
     
     history.forEach((entry, drawIndex) => {
       entry.results.forEach((result) => {
@@ -45,12 +98,44 @@ export function DrawHistory({ history, onReset, getOwnerByTicket }: DrawHistoryP
           result.category,
           result.ticketNumber,
           owner?.name || '-',
+          owner?.email || '-',
+          owner?.phone || '-',
+          owner?.organisation || '-',
           result.prize.name,
+          resultStatus(result, entry.results),
+          formatAlternates(result),
+          // Elimination prizes go out by survivor count, not in a prize order
+          entry.eliminated ? '' : PRIZE_ORDER_LABELS[entry.prizeOrder ?? 'fixed'],
+          entry.fairness?.algorithm || '-',
+          entry.fairness?.commitment || '-',
+          entry.fairness?.poolHash || '-',
+          entry.fairness?.seed || '-',
+        ]);
+      });
+      entry.eliminated?.forEach((out) => {
+        const owner = getOwnerByTicket(out.ticketNumber);
+        rows.push([
+          (history.length - drawIndex).toString(),
+          format(entry.timestamp, 'yyyy-MM-dd HH:mm:ss'),
+          entry.category,
+          out.ticketNumber,
+          owner?.name || '-',
+          owner?.email || '-',
+          owner?.phone || '-',
+          owner?.organisation || '-',
+          '-',
+          `Eliminated in round ${out.round}`,
+          '-',
+          '-',
+          '-',
+          '-',
+          '-',
+          '-',
         ]);
       });
     });
 
-    const csvContent = rows.map(row => row.map(cell => `"${cell}"`).join(',')).join('\n');
+    const csvContent = rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(',')).join('\n');
     const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
@@ -80,14 +165,16 @@ export function DrawHistory({ history, onReset, getOwnerByTicket }: DrawHistoryP
           format(entry.timestamp, 'MMM d, HH:mm'),
           `Category ${result.category}`,
           result.ticketNumber,
-          owner?.name || '-',
+          owner ? [owner.name, ownerContact(owner)].filter(Boolean).join('\n') : '-',
           result.prize.name,
+          resultStatus(result, entry.results),
+          formatAlternates(result),
         ];
       })
     );
 
     autoTable(doc, {
-      head: [['Draw #', 'Time', 'Category', 'Ticket', 'Owner', 'Prize']],
+      head: [['Draw #', 'Time', 'Category', 'Ticket', 'Owner', 'Prize', 'Status', 'Alternates']],
       body: tableData,
       startY: 38,
       styles: { fontSize: 9 },
@@ -95,10 +182,58 @@ export function DrawHistory({ history, onReset, getOwnerByTicket }: DrawHistoryP
       alternateRowStyles: { fillColor: [245, 247, 250] },
     });
 
+    const fairDraws = history
+      .map((entry, drawIndex) => ({ entry, drawNumber: history.length - drawIndex }))
+      .filter(({ entry }) => entry.fairness);
+
+    if (fairDraws.length > 0) {
+      autoTable(doc, {
+        head: [['Draw #', 'Provably Fair Proof']],
+        body: fairDraws.map(({ entry, drawNumber }) => [
+          drawNumber,
+          [
+            `Algorithm: ${entry.fairness.algorithm} (${entry.fairness.poolSize} tickets)`,
+            `Commitment: ${entry.fairness.commitment}`,
+            `Pool hash: ${entry.fairness.poolHash}`,
+            `Seed: ${entry.fairness.seed}`,
+          ].join('\n'),
+        ]),
+        styles: { fontSize: 7, font: 'courier' },
+        headStyles: { fillColor: [59, 130, 246], font: 'helvetica' },
+        columnStyles: { 0: { cellWidth: 18 } },
+      });
+    }
+
     doc.save(`raffle-results-${format(new Date(), 'yyyy-MM-dd-HHmmss')}.pdf`);
   };
 
-  const totalWinners = history.reduce((acc, entry) => acc + entry.results.length, 0);
+  const hasFairDraws = history.some(entry => entry.fairness);
+
+  const exportDrawRecord = () => {
+    if (!hasFairDraws) return;
+
+    const record: DrawRecordFile = {
+      type: 'raffle-draw-record',
+      version: DRAW_RECORD_VERSION,
+      draws: history
+        .map((entry, drawIndex) => ({ entry, drawNumber: history.length - drawIndex }))
+        .filter(({ entry }) => entry.fairness)
+        .map(({ entry, drawNumber }) => toDrawRecord(entry, drawNumber)),
+    };
+
+    const blob = new Blob([JSON.stringify(record, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `raffle-draw-record-${format(new Date(), 'yyyy-MM-dd-HHmmss')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const totalWinners = history.reduce(
+    (acc, entry) => acc + standingResults(entry.results).length,
+    0
+  );
 
   return (
     <Card className="h-full">
@@ -134,11 +269,20 @@ export function DrawHistory({ history, onReset, getOwnerByTicket }: DrawHistoryP
             <FileText className="h-4 w-4 mr-1" />
             PDF
           </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={exportDrawRecord}
+            disabled={!hasFairDraws}
+            title="Provably fair draw record for the Verify page"
+          >
+            <ShieldCheck className="h-4 w-4" />
+          </Button>
           <Button
             variant="outline"
             size="sm"
             onClick={onReset}
-            disabled={history.length === 0}
+            disabled={history.length === 0 || readOnly}
             className="text-destructive hover:text-destructive"
           >
             <Trash2 className="h-4 w-4" />
@@ -163,9 +307,30 @@ export function DrawHistory({ history, onReset, getOwnerByTicket }: DrawHistoryP
                     <Badge className={cn('text-xs', getCategoryColor(entry.category))}>
                       Cat {entry.category}
                     </Badge>
+                    {entry.round && (
+                      <Badge variant="secondary" className="text-xs">
+                        Round {entry.round}
+                      </Badge>
+                    )}
                     <Badge variant="outline" className="text-xs">
                       {entry.groupSize} drawn
                     </Badge>
+                    {entry.prizeOrder && entry.prizeOrder !== 'fixed' && (
+                      <Badge variant="outline" className="text-xs">
+                        {PRIZE_ORDER_LABELS[entry.prizeOrder]}
+                      </Badge>
+                    )}
+                    {entry.alternatesPerPrize && (
+                      <Badge variant="outline" className="text-xs">
+                        +{entry.alternatesPerPrize} alt.
+                      </Badge>
+                    )}
+                    {entry.fairness && (
+                      <ShieldCheck
+                        className="h-3 w-3 text-primary"
+                        aria-label={`Provably fair, seed ${entry.fairness.seed}`}
+                      />
+                    )}
                   </div>
                   <div className="space-y-1.5">
                     {entry.results.map((result) => {
@@ -173,23 +338,85 @@ export function DrawHistory({ history, onReset, getOwnerByTicket }: DrawHistoryP
                       return (
                         <div
                           key={result.id}
-                          className="flex items-center justify-between p-2 bg-muted/30 rounded-lg"
+                          className={cn(
+                            'p-2 bg-muted/30 rounded-lg',
+                            result.voided && 'opacity-60'
+                          )}
                         >
-                          <div className="flex items-center gap-2">
-                            <span className="font-mono font-bold">#{result.ticketNumber}</span>
-                            {owner && (
-                              <span className="flex items-center gap-1 text-xs text-primary">
-                                <User className="h-3 w-3" />
-                                {owner.name}
+                          <div className="flex items-center justify-between">
+                            <div className="flex items-center gap-2">
+                              {result.replacesId && (
+                                <RefreshCw
+                                  className="h-3 w-3 text-muted-foreground"
+                                  aria-label="Replacement winner"
+                                />
+                              )}
+                              <span
+                                className={cn('font-mono font-bold', result.voided && 'line-through')}
+                              >
+                                #{result.ticketNumber}
                               </span>
-                            )}
+                              {owner && (
+                                <span className="flex items-center gap-1 text-xs text-primary">
+                                  <User className="h-3 w-3" />
+                                  {owner.name}
+                                  {ownerContact(owner) && (
+                                    <span className="text-muted-foreground">
+                                      · {ownerContact(owner)}
+                                    </span>
+                                  )}
+                                </span>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-1 max-w-[50%]">
+                              <span
+                                className={cn(
+                                  'text-sm text-muted-foreground truncate',
+                                  result.voided && 'line-through'
+                                )}
+                              >
+                                {result.prize.name}
+                              </span>
+                              {!readOnly && !result.voided && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  className="h-6 w-6 shrink-0 text-destructive hover:text-destructive"
+                                  title="Void & redraw"
+                                  onClick={() => setVoidingResult(result)}
+                                >
+                                  <Ban className="h-3 w-3" />
+                                </Button>
+                              )}
+                            </div>
                           </div>
-                          <span className="text-sm text-muted-foreground truncate max-w-[40%]">
-                            {result.prize.name}
-                          </span>
+                          {(result.voided || result.replacesId) && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              {resultStatus(result, entry.results)}
+                            </div>
+                          )}
+                          {result.alternates && !result.voided && (
+                            <div className="text-xs text-muted-foreground mt-1">
+                              Alternates: {formatAlternates(result)}
+                            </div>
+                          )}
                         </div>
                       );
                     })}
+                    {entry.eliminated && entry.eliminated.length > 0 && (
+                      <div className="text-xs text-muted-foreground px-2">
+                        Elimination: {entry.eliminated.length} tickets out over{' '}
+                        {entry.eliminated[entry.eliminated.length - 1].round} rounds
+                      </div>
+                    )}
+                    {entry.skipped && entry.skipped.length > 0 && (
+                      <div className="text-xs text-muted-foreground px-2">
+                        Skipped:{' '}
+                        {entry.skipped
+                          .map((skip) => `#${skip.ticketNumber} (${skip.reason})`)
+                          .join(', ')}
+                      </div>
+                    )}
                   </div>
                   {index < history.length - 1 && <Separator className="my-3" />}
                 </div>
@@ -197,6 +424,12 @@ export function DrawHistory({ history, onReset, getOwnerByTicket }: DrawHistoryP
             </div>
           )}
         </ScrollArea>
+
+        <VoidResultDialog
+          result={voidingResult}
+          onClose={() => setVoidingResult(null)}
+          onVoidResult={onVoidResult}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,297 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  AlertCircle,
+  ArrowDown,
+  ArrowUp,
+  Play,
+  Plus,
+  RotateCcw,
+  SkipForward,
+  Trash2,
+} from 'lucide-react';
+import { Category, DrawResult, DrawRound, Prize, RoundStatus } from '@/types/raffle';
+
+interface DrawProgrammeProps {
+  programme: DrawRound[];
+  categories: Category[];
+  tickets: string[];
+  getAvailablePrizes: (category: Category) => Prize[];
+  isDrawing: boolean;
+  onChangeProgramme: (programme: DrawRound[]) => void;
+  onRunRound: (round: DrawRound) => Promise<DrawResult[]>;
+}
+
+const STATUS_VARIANTS: Record<RoundStatus, 'default' | 'secondary' | 'outline'> = {
+  pending: 'outline',
+  drawn: 'default',
+  skipped: 'secondary',
+};
+
+export function DrawProgramme({
+  programme,
+  categories,
+  tickets,
+  getAvailablePrizes,
+  isDrawing,
+  onChangeProgramme,
+  onRunRound,
+}: DrawProgrammeProps) {
+  const [pauseEndsAt, setPauseEndsAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (pauseEndsAt === null) return;
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= pauseEndsAt) setPauseEndsAt(null);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [pauseEndsAt]);
+
+  const pauseRemaining = pauseEndsAt === null ? 0 : Math.ceil((pauseEndsAt - now) / 1000);
+  const nextIndex = programme.findIndex(r => r.status === 'pending');
+  const nextRound = nextIndex === -1 ? undefined : programme[nextIndex];
+  const finishedCount = programme.filter(r => r.status !== 'pending').length;
+
+  const getRoundProblem = (round: DrawRound) => {
+    if (!categories.includes(round.category)) {
+      return `Category ${round.category} no longer exists`;
+    }
+    const prizeCount = getAvailablePrizes(round.category).length;
+    if (prizeCount < round.groupSize) {
+      return `Only ${prizeCount} prizes left in Category ${round.category}`;
+    }
+    if (tickets.length < round.groupSize) {
+      return `Only ${tickets.length} tickets left`;
+    }
+    return null;
+  };
+
+  const updateRound = (id: string, changes: Partial<DrawRound>) =>
+    onChangeProgramme(programme.map(r => (r.id === id ? { ...r, ...changes } : r)));
+
+  const moveRound = (index: number, offset: number) => {
+    const next = [...programme];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChangeProgramme(next);
+  };
+
+  const addRound = () =>
+    onChangeProgramme([
+      ...programme,
+      {
+        id: crypto.randomUUID(),
+        category: categories[0] || 'A',
+        groupSize: 1,
+        pauseSeconds: 0,
+        status: 'pending',
+      },
+    ]);
+
+  const runRound = async (round: DrawRound) => {
+    const results = await onRunRound(round);
+    if (results.length > 0 && round.pauseSeconds > 0) {
+      setNow(Date.now());
+      setPauseEndsAt(Date.now() + round.pauseSeconds * 1000);
+    }
+  };
+
+  const resetProgress = () => {
+    setPauseEndsAt(null);
+    onChangeProgramme(programme.map(r => ({ ...r, status: 'pending' })));
+  };
+
+  const nextProblem = nextRound && getRoundProblem(nextRound);
+
+  return (
+    <div className="space-y-4">
+      {/* Progress */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">
+            {programme.length === 0
+              ? 'No rounds yet'
+              : nextRound
+                ? `Round ${nextIndex + 1} of ${programme.length}`
+                : 'Programme complete'}
+          </span>
+          <span className="text-muted-foreground">
+            {finishedCount}/{programme.length} done
+          </span>
+        </div>
+        <Progress value={programme.length ? (finishedCount / programme.length) * 100 : 0} />
+      </div>
+
+      {/* Rounds */}
+      <div className="space-y-2">
+        {programme.map((round, index) => {
+          const isPending = round.status === 'pending';
+          const problem = isPending && getRoundProblem(round);
+          return (
+            <div
+              key={round.id}
+              className={`p-2 rounded-lg border space-y-1 ${round.id === nextRound?.id ? 'border-primary' : ''}`}
+            >
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium w-6 shrink-0">{index + 1}.</span>
+                <Select
+                  value={round.category}
+                  onValueChange={v => updateRound(round.id, { category: v })}
+                  disabled={!isPending || isDrawing}
+                >
+                  <SelectTrigger className="h-8 w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {categories.map(cat => (
+                      <SelectItem key={cat} value={cat}>
+                        {cat}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  className="h-8 w-16"
+                  title="Winners in this round"
+                  value={round.groupSize}
+                  onChange={e =>
+                    updateRound(round.id, { groupSize: Math.max(parseInt(e.target.value) || 1, 1) })
+                  }
+                  disabled={!isPending || isDrawing}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  className="h-8 w-16"
+                  title="Pause after this round (seconds)"
+                  value={round.pauseSeconds}
+                  onChange={e =>
+                    updateRound(round.id, {
+                      pauseSeconds: Math.max(parseInt(e.target.value) || 0, 0),
+                    })
+                  }
+                  disabled={!isPending || isDrawing}
+                />
+                <Badge variant={STATUS_VARIANTS[round.status]} className="text-xs capitalize">
+                  {round.status}
+                </Badge>
+                <div className="flex items-center ml-auto">
+                  {isPending ? (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title="Skip round"
+                      onClick={() => updateRound(round.id, { status: 'skipped' })}
+                      disabled={isDrawing}
+                    >
+                      <SkipForward className="h-3 w-3" />
+                    </Button>
+                  ) : (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title={round.status === 'drawn' ? 'Repeat round' : 'Run skipped round'}
+                      onClick={() => runRound(round)}
+                      disabled={isDrawing || !!getRoundProblem(round)}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    title="Move up"
+                    onClick={() => moveRound(index, -1)}
+                    disabled={index === 0 || isDrawing}
+                  >
+                    <ArrowUp className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7"
+                    title="Move down"
+                    onClick={() => moveRound(index, 1)}
+                    disabled={index === programme.length - 1 || isDrawing}
+                  >
+                    <ArrowDown className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-7 w-7 text-destructive"
+                    title="Remove round"
+                    onClick={() => onChangeProgramme(programme.filter(r => r.id !== round.id))}
+                    disabled={isDrawing}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+              {problem && <div className="text-xs text-destructive pl-8">{problem}</div>}
+            </div>
+          );
+        })}
+        {programme.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Each round: category, winners, pause in seconds before the next round
+          </p>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={addRound} disabled={isDrawing}>
+          <Plus className="h-4 w-4 mr-1" />
+          Add Round
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={resetProgress}
+          disabled={isDrawing || finishedCount === 0}
+        >
+          <RotateCcw className="h-4 w-4 mr-1" />
+          Reset Progress
+        </Button>
+      </div>
+
+      {/* Next Round */}
+      <div className="space-y-2">
+        <Button
+          onClick={() => nextRound && runRound(nextRound)}
+          disabled={!nextRound || isDrawing || pauseRemaining > 0 || !!nextProblem}
+          className="w-full h-14 text-lg font-bold"
+        >
+          <Play className="h-5 w-5 mr-2" />
+          {pauseRemaining > 0
+            ? `Next round in ${pauseRemaining}s`
+            : nextRound
+              ? `Next Round: ${nextRound.groupSize} from Category ${nextRound.category}`
+              : 'Next Round'}
+        </Button>
+        {nextProblem && (
+          <div className="flex items-center gap-2 text-sm text-destructive">
+            <AlertCircle className="h-4 w-4" />
+            {nextProblem}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
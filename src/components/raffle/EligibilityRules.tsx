@@ -0,0 +1,68 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { EligibilityRules as Rules } from '@/types/raffle';
+
+interface EligibilityRulesProps {
+  rules: Rules;
+  onChange: (rules: Partial<Rules>) => void;
+  disabled?: boolean;
+}
+
+// Blank or non-positive input means "no limit"
+const parseLimit = (value: string) => {
+  const limit = parseInt(value);
+  return isNaN(limit) || limit < 1 ? null : limit;
+};
+
+export function EligibilityRules({ rules, onChange, disabled }: EligibilityRulesProps) {
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="max-wins-event">
+            Max wins per owner (event)
+          </Label>
+          <Input
+            id="max-wins-event"
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={rules.maxWinsPerOwner ?? ''}
+            onChange={(e) => onChange({ maxWinsPerOwner: parseLimit(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs" htmlFor="max-wins-category">
+            Max wins per owner (category)
+          </Label>
+          <Input
+            id="max-wins-category"
+            type="number"
+            min={1}
+            placeholder="No limit"
+            value={rules.maxWinsPerOwnerPerCategory ?? ''}
+            onChange={(e) => onChange({ maxWinsPerOwnerPerCategory: parseLimit(e.target.value) })}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <div className="flex items-center justify-between">
+        <Label className="text-xs" htmlFor="remove-owner-tickets">
+          Once an owner wins, remove all their other tickets from the pool
+        </Label>
+        <Switch
+          id="remove-owner-tickets"
+          checked={rules.removeOwnerTicketsOnWin}
+          onCheckedChange={(checked) => onChange({ removeOwnerTicketsOnWin: checked })}
+          disabled={disabled}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Rules apply to tickets registered on the Ticket Owners page. Drawn tickets of an owner
+        over a limit are skipped and stay in the pool.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,296 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Flame, Plus, Trash2, Trophy, User, X } from 'lucide-react';
+import {
+  ConsolationPrize,
+  DrawResult,
+  EliminationGame,
+  EliminationSetup,
+  Prize,
+  TicketOwner,
+} from '@/types/raffle';
+import { useToast } from '@/hooks/use-toast';
+
+interface EliminationDrawProps {
+  game: EliminationGame | null;
+  /** Every prize of the event, to name those a running game holds. */
+  prizes: Prize[];
+  /** Prizes free to put up in a new game. */
+  availablePrizes: Prize[];
+  ticketCount: number;
+  onStart: (setup: EliminationSetup) => boolean;
+  onRunRound: () => DrawResult[];
+  onClose: () => void;
+  getOwnerByTicket: (ticketNumber: string) => TicketOwner | undefined;
+}
+
+const MAX_SHOWN_SURVIVORS = 120;
+
+export function EliminationDraw({
+  game,
+  prizes,
+  availablePrizes,
+  ticketCount,
+  onStart,
+  onRunRound,
+  onClose,
+  getOwnerByTicket,
+}: EliminationDrawProps) {
+  const { toast } = useToast();
+  const [grandPrizeId, setGrandPrizeId] = useState('');
+  const [perRound, setPerRound] = useState(1);
+  const [consolation, setConsolation] = useState<ConsolationPrize[]>([]);
+
+  const prizeName = (id: string) =>
+    prizes.find(p => p.id === id)?.name ??
+    game?.results.find(r => r.prize.id === id)?.prize.name ??
+    'Unavailable prize';
+
+  const updateConsolation = (index: number, changes: Partial<ConsolationPrize>) =>
+    setConsolation(list => list.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+
+  const handleStart = () => {
+    const started = onStart({
+      grandPrizeId,
+      perRound,
+      consolation: consolation.filter(c => c.prizeId && c.survivorCount >= 1),
+    });
+    if (!started) {
+      toast({
+        title: 'Cannot start elimination',
+        description: 'Pick an available grand prize and add at least 2 tickets',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRunRound = () => {
+    const results = onRunRound();
+    results.forEach(result =>
+      toast({
+        title: `#${result.ticketNumber} wins ${result.prize.name}`,
+        description: result.ownerName,
+      })
+    );
+  };
+
+  if (!game) {
+    const usedPrizeIds = new Set([grandPrizeId, ...consolation.map(c => c.prizeId)]);
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Grand prize</label>
+            <Select value={grandPrizeId} onValueChange={setGrandPrizeId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Last ticket standing wins" />
+              </SelectTrigger>
+              <SelectContent>
+                {availablePrizes.map(prize => (
+                  <SelectItem key={prize.id} value={prize.id}>
+                    {prize.name} (Cat {prize.category})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium">Tickets out per round</label>
+            <Input
+              type="number"
+              min={1}
+              value={perRound}
+              onChange={e => setPerRound(Math.max(parseInt(e.target.value) || 1, 1))}
+            />
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium">Consolation prizes</label>
+          {consolation.map((c, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <span className="text-xs text-muted-foreground shrink-0">When</span>
+              <Input
+                type="number"
+                min={1}
+                className="h-8 w-20"
+                value={c.survivorCount}
+                onChange={e =>
+                  updateConsolation(index, {
+                    survivorCount: Math.max(parseInt(e.target.value) || 1, 1),
+                  })
+                }
+              />
+              <span className="text-xs text-muted-foreground shrink-0">remain, the ticket out wins</span>
+              <Select value={c.prizeId} onValueChange={v => updateConsolation(index, { prizeId: v })}>
+                <SelectTrigger className="h-8">
+                  <SelectValue placeholder="Prize" />
+                </SelectTrigger>
+                <SelectContent>
+                  {availablePrizes
+                    .filter(p => p.id === c.prizeId || !usedPrizeIds.has(p.id))
+                    .map(prize => (
+                      <SelectItem key={prize.id} value={prize.id}>
+                        {prize.name} (Cat {prize.category})
+                      </SelectItem>
+                    ))}
+                </SelectContent>
+              </Select>
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-8 w-8 shrink-0 text-destructive"
+                onClick={() => setConsolation(list => list.filter((_, i) => i !== index))}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setConsolation(list => [...list, { survivorCount: 2, prizeId: '' }])}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Consolation Prize
+          </Button>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Starts from the current pool of {ticketCount} tickets. Every ticket has the same chance
+          of going out; weights and the provably fair mode do not apply.
+        </p>
+        <Button
+          onClick={handleStart}
+          disabled={!grandPrizeId || ticketCount < 2}
+          className="w-full h-16 text-xl font-bold"
+        >
+          <Flame className="h-6 w-6 mr-2" />
+          START ELIMINATION
+        </Button>
+      </div>
+    );
+  }
+
+  const survivorCount = game.survivors.length;
+  const lastRoundOut = game.eliminated.filter(e => e.round === game.round);
+  const grandWinner = game.finished ? game.results.find(r => r.prize.id === game.grandPrizeId) : undefined;
+  const champion = game.finished ? game.survivors[0] : undefined;
+  const championOwner = champion ? getOwnerByTicket(champion) : undefined;
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="font-medium">
+            {game.round === 0 ? 'Ready' : `Round ${game.round}`} • {survivorCount} of{' '}
+            {game.poolSize} tickets left
+          </span>
+          <span className="text-muted-foreground">{prizeName(game.grandPrizeId)}</span>
+        </div>
+        <Progress value={((game.poolSize - survivorCount) / (game.poolSize - 1)) * 100} />
+      </div>
+
+      {champion ? (
+        <div className="winner-card p-6 rounded-xl text-center border-2 border-winner/30 bg-gradient-to-r from-winner/10 to-winner/5 animate-scale-in">
+          <div className="flex items-center justify-center gap-2 text-winner">
+            <Trophy className="h-5 w-5" />
+            Last ticket standing
+          </div>
+          <div className="text-5xl font-bold font-mono">#{champion}</div>
+          {championOwner && (
+            <div className="flex items-center justify-center gap-1 text-primary mt-1">
+              <User className="h-4 w-4" />
+              {championOwner.name}
+            </div>
+          )}
+          <div className="text-lg text-muted-foreground mt-1">
+            {grandWinner ? grandWinner.prize.name : 'The grand prize was no longer available'}
+          </div>
+        </div>
+      ) : (
+        <>
+          {lastRoundOut.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-xs font-medium text-muted-foreground">Out in round {game.round}</div>
+              <div className="flex flex-wrap gap-1">
+                {lastRoundOut.map(e => (
+                  <Badge key={e.ticketNumber} variant="destructive" className="font-mono line-through">
+                    {e.ticketNumber}
+                  </Badge>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="space-y-1">
+            <div className="text-xs font-medium text-muted-foreground">Still in</div>
+            <div className="flex flex-wrap gap-1 max-h-40 overflow-y-auto">
+              {game.survivors.slice(0, MAX_SHOWN_SURVIVORS).map(ticket => (
+                <Badge key={ticket} variant="outline" className="font-mono">
+                  {ticket}
+                </Badge>
+              ))}
+              {survivorCount > MAX_SHOWN_SURVIVORS && (
+                <span className="text-xs text-muted-foreground self-center">
+                  and {survivorCount - MAX_SHOWN_SURVIVORS} more
+                </span>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
+      {game.consolation.length > 0 && (
+        <div className="p-3 rounded-lg bg-muted/30 text-xs space-y-1">
+          {[...game.consolation]
+            .sort((a, b) => b.survivorCount - a.survivorCount)
+            .map(c => {
+              const winner = game.results.find(r => r.prize.id === c.prizeId);
+              return (
+                <div key={c.prizeId} className="flex justify-between">
+                  <span>
+                    At {c.survivorCount} left: {prizeName(c.prizeId)}
+                  </span>
+                  <span className="font-mono">{winner ? `#${winner.ticketNumber}` : '—'}</span>
+                </div>
+              );
+            })}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        {!game.finished && (
+          <Button onClick={handleRunRound} className="flex-1 h-14 text-lg font-bold">
+            <Flame className="h-5 w-5 mr-2" />
+            Eliminate {Math.min(game.perRound, survivorCount - 1)}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          onClick={onClose}
+          className={game.finished ? 'flex-1' : 'h-14'}
+          title={game.finished ? undefined : 'End the elimination and record it as it stands'}
+        >
+          {game.finished ? (
+            'Close'
+          ) : (
+            <>
+              <Trash2 className="h-4 w-4 mr-1" />
+              End
+            </>
+          )}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -14,10 +14,10 @@ import Papa from 'papaparse';
 interface PrizeManagementProps {
   prizes: Prize[];
   categories: Category[];
-  onAddPrize: (name: string, category: Category) => void;
-  onAddBulkPrizes: (prizes: Array<{ name: string; category: Category }>) => number;
-  onUpdatePrize: (id: string, name: string, category: Category) => void;
-  onDeletePrize: (id: string) => void;
+  onAddPrize: (name: string, category: Category, rank?: number) => void;
+  onAddBulkPrizes: (prizes: Array<{ name: string; category: Category; rank?: number }>) => number;
+  onUpdatePrize: (id: string, name: string, category: Category, rank?: number) => boolean;
+  onDeletePrize: (id: string) => boolean;
   onAddCategory: (name: string) => boolean;
   onDeleteCategory: (name: string) => boolean;
   getPrizesByCategory: (category: Category) => Prize[];
@@ -35,23 +35,32 @@ const getColorForCategory = (category: string) => {
   return { bg: `bg-[hsl(${hue},70%,50%)]/20`, fg: `text-[hsl(${hue},70%,40%)]` };
 };
 
+// Blank or invalid input leaves the prize unranked
+const parseRank = (value: string | undefined) => {
+  const rank = parseInt(value ?? '');
+  return isNaN(rank) || rank < 1 ? undefined : rank;
+};
+
 export function PrizeManagement({
   prizes, categories, onAddPrize, onAddBulkPrizes, onUpdatePrize, onDeletePrize,
   onAddCategory, onDeleteCategory, getPrizesByCategory,
 }: PrizeManagementProps) {
   const [newPrizeName, setNewPrizeName] = useState('');
+  const [newPrizeRank, setNewPrizeRank] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<Category>(categories[0] || 'A');
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editCategory, setEditCategory] = useState<Category>('A');
+  const [editRank, setEditRank] = useState('');
   const [newCategoryName, setNewCategoryName] = useState('');
   const [showCategoryManager, setShowCategoryManager] = useState(false);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleAddPrize = () => {
     if (newPrizeName.trim()) {
-      onAddPrize(newPrizeName.trim(), selectedCategory);
+      onAddPrize(newPrizeName.trim(), selectedCategory, parseRank(newPrizeRank));
       setNewPrizeName('');
+      setNewPrizeRank('');
       toast.success('Prize added');
     }
   };
@@ -61,7 +70,7 @@ export function PrizeManagement({
     if (!file) return;
     Papa.parse(file, {
       complete: (results) => {
-        const prizesData: Array<{ name: string; category: Category }> = [];
+        const prizesData: Array<{ name: string; category: Category; rank?: number }> = [];
         results.data.forEach((row: unknown) => {
           const rowArray = row as string[];
           if (rowArray.length >= 1) {
@@ -69,7 +78,7 @@ export function PrizeManagement({
             const category = rowArray[1]?.trim().toUpperCase() || selectedCategory;
             if (name) {
               if (!categories.includes(category)) onAddCategory(category);
-              prizesData.push({ name, category });
+              prizesData.push({ name, category, rank: parseRank(rowArray[2]?.trim()) });
             }
           }
         });
@@ -135,6 +144,7 @@ export function PrizeManagement({
         )}
         <div className="flex gap-2">
           <Input placeholder="Prize name" value={newPrizeName} onChange={(e) => setNewPrizeName(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAddPrize()} className="flex-1" />
+          <Input type="number" min={1} placeholder="Rank" title="Prize rank, 1 is the grand prize" value={newPrizeRank} onChange={(e) => setNewPrizeRank(e.target.value)} onKeyDown={(e) => e.key === 'Enter' && handleAddPrize()} className="w-20" />
           <Select value={selectedCategory} onValueChange={setSelectedCategory}>
             <SelectTrigger className="w-20"><SelectValue /></SelectTrigger>
             <SelectContent>{categories.map((cat) => <SelectItem key={cat} value={cat}>{cat}</SelectItem>)}</SelectContent>
@@ -146,7 +156,7 @@ export function PrizeManagement({
           <Button variant="outline" className="w-full" onClick={() => fileInputRef.current?.click()}>
             <Upload className="h-4 w-4 mr-2" />Import Prizes from CSV
           </Button>
-          <p className="text-xs text-muted-foreground mt-1">CSV format: prize_name, category</p>
+          <p className="text-xs text-muted-foreground mt-1">CSV format: prize_name, category, rank (optional, 1 = grand prize)</p>
         </div>
         <Tabs defaultValue={categories[0]} className="w-full">
           <TabsList className="w-full flex">
@@ -166,11 +176,12 @@ export function PrizeManagement({
                       {editingId === prize.id ? (
                         <div className="flex items-center gap-2 flex-1">
                           <Input value={editName} onChange={(e) => setEditName(e.target.value)} className="h-8" />
+                          <Input type="number" min={1} placeholder="Rank" value={editRank} onChange={(e) => setEditRank(e.target.value)} className="w-20 h-8" />
                           <Select value={editCategory} onValueChange={setEditCategory}>
                             <SelectTrigger className="w-20 h-8"><SelectValue /></SelectTrigger>
                             <SelectContent>{categories.map((c) => <SelectItem key={c} value={c}>{c}</SelectItem>)}</SelectContent>
                           </Select>
-                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => { onUpdatePrize(editingId, editName.trim(), editCategory); setEditingId(null); }}><Check className="h-4 w-4 text-green-500" /></Button>
+                          <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => { if (!onUpdatePrize(editingId, editName.trim(), editCategory, parseRank(editRank))) toast.error('This prize is reserved for the elimination draw in progress'); setEditingId(null); }}><Check className="h-4 w-4 text-green-500" /></Button>
                           <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)}><X className="h-4 w-4 text-destructive" /></Button>
                         </div>
                       ) : (
@@ -178,12 +189,13 @@ export function PrizeManagement({
                           <div className="flex items-center gap-2">
                             <Badge className={`${getColorForCategory(cat).bg} ${getColorForCategory(cat).fg} border-0`}>{cat}</Badge>
                             <span className={prize.isAssigned ? 'line-through' : ''}>{prize.name}</span>
+                            {prize.rank && <Badge variant="secondary" className="text-xs">Rank {prize.rank}</Badge>}
                             {prize.isAssigned && <Badge variant="outline" className="text-xs">→ #{prize.assignedTo}</Badge>}
                           </div>
                           {!prize.isAssigned && (
                             <div className="flex items-center gap-1">
-                              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => { setEditingId(prize.id); setEditName(prize.name); setEditCategory(prize.category); }}><Edit2 className="h-4 w-4" /></Button>
-                              <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => onDeletePrize(prize.id)}><Trash2 className="h-4 w-4" /></Button>
+                              <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => { setEditingId(prize.id); setEditName(prize.name); setEditCategory(prize.category); setEditRank(prize.rank?.toString() ?? ''); }}><Edit2 className="h-4 w-4" /></Button>
+                              <Button size="icon" variant="ghost" className="h-8 w-8 text-destructive" onClick={() => { if (!onDeletePrize(prize.id)) toast.error('This prize is reserved for the elimination draw in progress'); }}><Trash2 className="h-4 w-4" /></Button>
                             </div>
                           )}
                         </>
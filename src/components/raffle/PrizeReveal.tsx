@@ -0,0 +1,89 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogTitle } from '@/components/ui/dialog';
+import { Gift, Trophy, User, SkipForward } from 'lucide-react';
+import { DrawResult, Prize, TicketOwner } from '@/types/raffle';
+
+interface PrizeRevealProps {
+  prize: Prize | null;
+  result: DrawResult | null;
+  owner?: TicketOwner;
+  isDrawing: boolean;
+  animatingTicket?: string;
+  prizesLeft: number;
+  categoryColor: string;
+  onDraw: () => void;
+  onNext: () => void;
+  onClose: () => void;
+}
+
+/** Full-screen announcement of one prize, then the single ticket drawn for it. */
+export function PrizeReveal({
+  prize,
+  result,
+  owner,
+  isDrawing,
+  animatingTicket,
+  prizesLeft,
+  categoryColor,
+  onDraw,
+  onNext,
+  onClose,
+}: PrizeRevealProps) {
+  return (
+    <Dialog open={prize !== null} onOpenChange={open => !open && !isDrawing && onClose()}>
+      <DialogContent className="max-w-none w-screen h-screen flex flex-col items-center justify-center gap-8 text-center border-0 rounded-none">
+        <Badge className={`text-lg px-4 py-1 ${categoryColor}`}>Category {prize?.category}</Badge>
+        <div className="space-y-2">
+          <DialogDescription className="text-xl flex items-center justify-center gap-2">
+            <Gift className="h-6 w-6 text-primary" />
+            Now drawing for
+          </DialogDescription>
+          <DialogTitle className="text-5xl md:text-7xl font-bold animate-scale-in">
+            {prize?.name}
+          </DialogTitle>
+        </div>
+
+        <div className="min-h-[12rem] flex flex-col items-center justify-center">
+          {isDrawing && (
+            <div className="text-7xl md:text-9xl font-mono font-bold shuffle-animation">
+              {animatingTicket ?? '…'}
+            </div>
+          )}
+          {!isDrawing && result && (
+            <div className="winner-card p-8 rounded-2xl border-2 border-winner/30 bg-gradient-to-r from-winner/10 to-winner/5 animate-scale-in">
+              <div className="flex items-center justify-center gap-2 text-xl text-winner">
+                <Trophy className="h-6 w-6" />
+                Winner
+              </div>
+              <div className="text-7xl md:text-9xl font-mono font-bold">#{result.ticketNumber}</div>
+              {owner && (
+                <div className="flex items-center justify-center gap-2 text-2xl text-primary mt-2">
+                  <User className="h-6 w-6" />
+                  {owner.name}
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-4">
+          {!result ? (
+            <Button size="lg" className="h-16 px-12 text-2xl font-bold" onClick={onDraw} disabled={isDrawing}>
+              {isDrawing ? 'Drawing...' : 'Draw Ticket'}
+            </Button>
+          ) : prizesLeft > 0 ? (
+            <Button size="lg" className="h-16 px-12 text-2xl font-bold" onClick={onNext}>
+              <SkipForward className="h-6 w-6 mr-2" />
+              Next Prize ({prizesLeft} left)
+            </Button>
+          ) : (
+            <Button size="lg" className="h-16 px-12 text-2xl font-bold" onClick={onClose}>
+              All prizes drawn
+            </Button>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
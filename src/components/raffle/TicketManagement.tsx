@@ -1,62 +1,184 @@
-import { useState, useRef } from 'react';
+import { useState, useRef, useMemo, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
-import { ScrollArea } from '@/components/ui/scroll-area';
-import { Ticket, Upload, Plus, Trash2, FileSpreadsheet, Users } from 'lucide-react';
+import { Ticket, Upload, Plus, Trash2, Users, Check, ScanLine } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import Papa from 'papaparse';
+import { WeightOf, isValidWeight } from '@/lib/drawEngine';
+import { MAX_RANGE_SIZE, poolIndex } from '@/lib/ticketPool';
+import {
+  formatPattern,
+  formatTicket,
+  isValidTicket,
+  normalizeTicket,
+  normalizeTickets,
+  parseFormatPattern,
+} from '@/lib/ticketFormat';
+import { TICKET_STATUS_LABELS, countByStatus, drawPool, statusOf } from '@/lib/ticketStatus';
+import { TicketPoolList } from '@/components/raffle/TicketPoolList';
+import { TicketStatusSection } from '@/components/raffle/TicketStatusSection';
+import { TicketScanner } from '@/components/raffle/TicketScanner';
+import {
+  ScanMode,
+  ScanOutcome,
+  TicketFormat,
+  TicketStatus,
+  TicketStatusGroup,
+} from '@/types/raffle';
 
 interface TicketManagementProps {
   tickets: string[];
-  onAddTickets: (tickets: string[]) => void;
-  onAddRange: (start: number, end: number) => void;
+  ticketFormat: TicketFormat | null;
+  onSetTicketFormat: (format: TicketFormat | null) => number;
+  onAddTickets: (tickets: string[]) => number;
+  onAddRange: (start: number, end: number, format: TicketFormat | null) => number;
+  onRemoveTickets: (tickets: string[]) => void;
   onClearTickets: () => void;
   onImportFromOwners?: () => string[];
+  weightOf: WeightOf;
+  onSetTicketWeights: (tickets: string[], weight: number) => void;
+  ticketStatuses: TicketStatusGroup[];
+  onChangeTicketStatus: (tickets: string[], status: TicketStatus, reason?: string) => number;
+  onScanTicket: (code: string, mode: ScanMode) => { ticket: string; outcome: ScanOutcome };
 }
 
+const EXAMPLE_TICKET = 42;
+
 export function TicketManagement({
   tickets,
+  ticketFormat,
+  onSetTicketFormat,
   onAddTickets,
   onAddRange,
+  onRemoveTickets,
   onClearTickets,
   onImportFromOwners,
+  weightOf,
+  onSetTicketWeights,
+  ticketStatuses,
+  onChangeTicketStatus,
+  onScanTicket,
 }: TicketManagementProps) {
   const { toast } = useToast();
   const [bulkInput, setBulkInput] = useState('');
+  const [bulkWeight, setBulkWeight] = useState('1');
   const [rangeStart, setRangeStart] = useState('');
   const [rangeEnd, setRangeEnd] = useState('');
+  const [rangePrefix, setRangePrefix] = useState('');
+  const [rangeDigits, setRangeDigits] = useState('');
+  const [rangeSuffix, setRangeSuffix] = useState('');
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
+  const [formatInput, setFormatInput] = useState(ticketFormat ? formatPattern(ticketFormat) : '');
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Follow the event's format, e.g. after switching events
+  useEffect(() => {
+    setFormatInput(ticketFormat ? formatPattern(ticketFormat) : '');
+  }, [ticketFormat]);
+
+  // Ranges of a formatted event always use its format
+  const rangeFormat: TicketFormat | null =
+    ticketFormat ??
+    (rangePrefix || rangeSuffix || parseInt(rangeDigits) > 1
+      ? { prefix: rangePrefix, digits: Math.max(parseInt(rangeDigits) || 1, 1), suffix: rangeSuffix }
+      : null);
+
+  // Canonical tickets of `input` and how many do not fit the event's format
+  const prepareTickets = (input: string[]) => {
+    const valid = input.filter(t => isValidTicket(t, ticketFormat));
+    return { valid: normalizeTickets(valid, ticketFormat), invalid: input.length - valid.length };
+  };
+
+  const invalidNote = (invalid: number) =>
+    invalid > 0 && ticketFormat
+      ? ` (${invalid} not matching ${formatPattern(ticketFormat)} skipped)`
+      : '';
+
+  const handleSaveFormat = () => {
+    const pattern = formatInput.trim();
+    const format = pattern ? parseFormatPattern(pattern) : null;
+    if (pattern && !format) {
+      toast({
+        title: 'Invalid format',
+        description: 'Use one run of # for the number, e.g. EVT-#####',
+        variant: 'destructive',
+      });
+      return;
+    }
+    const unmatched = onSetTicketFormat(format);
+    toast({
+      title: format ? `Ticket format set to ${formatPattern(format)}` : 'Ticket numbers are free-form',
+      description:
+        unmatched > 0
+          ? `${unmatched} tickets in the pool do not match the format`
+          : format
+            ? 'Existing tickets and owners were normalised to the format'
+            : undefined,
+      variant: unmatched > 0 ? 'destructive' : undefined,
+    });
+  };
+
+  // Odds are shares of the tickets that are drawn
+  const pool = useMemo(() => drawPool(tickets, ticketStatuses), [tickets, ticketStatuses]);
+  const totalWeight = useMemo(
+    () => pool.reduce((sum, t) => sum + weightOf(t), 0),
+    [pool, weightOf]
+  );
+  const hasWeights = totalWeight !== pool.length;
+
+  const statusCounts = useMemo(
+    () => countByStatus(tickets, ticketStatuses),
+    [tickets, ticketStatuses]
+  );
+  const ticketStatusOf = useMemo(
+    () => (ticketStatuses.length > 0 ? (t: string) => statusOf(ticketStatuses, t) : undefined),
+    [ticketStatuses]
+  );
+
   const handleBulkAdd = () => {
     if (!bulkInput.trim()) return;
     
-    const newTickets = bulkInput
-      .split(/[,\n\s]+/)
-      .map(t => t.trim())
-      .filter(t => t.length > 0);
+    const { valid: newTickets, invalid } = prepareTickets(
+      bulkInput.split(/[,\n\s]+/).filter(t => t.length > 0)
+    );
     
     if (newTickets.length === 0) {
       toast({
         title: 'No tickets found',
-        description: 'Please enter valid ticket numbers',
+        description: ticketFormat
+          ? `Enter ticket numbers like ${formatTicket(EXAMPLE_TICKET, ticketFormat)}`
+          : 'Please enter valid ticket numbers',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const weight = Number(bulkWeight || '1');
+    if (!isValidWeight(weight)) {
+      toast({
+        title: 'Invalid weight',
+        description: 'Weight must be a whole number of entries (1 or more)',
         variant: 'destructive',
       });
       return;
     }
 
-    const existingSet = new Set(tickets);
-    const duplicates = newTickets.filter(t => existingSet.has(t));
-    const unique = newTickets.filter(t => !existingSet.has(t));
+    const existing = poolIndex(tickets);
+    const duplicates = newTickets.filter(t => existing.has(t));
+    const unique = newTickets.filter(t => !existing.has(t));
 
     onAddTickets(unique);
+    if (weight !== 1) {
+      onSetTicketWeights(unique, weight);
+    }
     setBulkInput('');
 
     toast({
       title: 'Tickets added',
-      description: `Added ${unique.length} tickets${duplicates.length > 0 ? ` (${duplicates.length} duplicates skipped)` : ''}`,
+      description: `Added ${unique.length} tickets${weight !== 1 ? ` with ${weight}x weight` : ''}${duplicates.length > 0 ? ` (${duplicates.length} duplicates skipped)` : ''}${invalidNote(invalid)}`,
     });
   };
 
@@ -64,7 +186,7 @@ export function TicketManagement({
     const start = parseInt(rangeStart);
     const end = parseInt(rangeEnd);
 
-    if (isNaN(start) || isNaN(end)) {
+    if (isNaN(start) || isNaN(end) || (rangeFormat && start < 0)) {
       toast({
         title: 'Invalid range',
         description: 'Please enter valid numbers',
@@ -82,22 +204,23 @@ export function TicketManagement({
       return;
     }
 
-    if (end - start > 10000) {
+    if (end - start + 1 > MAX_RANGE_SIZE) {
       toast({
         title: 'Range too large',
-        description: 'Maximum 10,000 tickets at once',
+        description: `Maximum ${MAX_RANGE_SIZE.toLocaleString()} tickets at once`,
         variant: 'destructive',
       });
       return;
     }
 
-    onAddRange(start, end);
+    const added = onAddRange(start, end, rangeFormat);
     setRangeStart('');
     setRangeEnd('');
 
+    const duplicates = end - start + 1 - added;
     toast({
       title: 'Tickets added',
-      description: `Added range ${start} to ${end}`,
+      description: `Added ${added.toLocaleString()} tickets from ${rangeFormat ? formatTicket(start, rangeFormat) : start} to ${rangeFormat ? formatTicket(end, rangeFormat) : end}${duplicates > 0 ? ` (${duplicates.toLocaleString()} duplicates skipped)` : ''}`,
     });
   };
 
@@ -105,12 +228,58 @@ export function TicketManagement({
     const file = event.target.files?.[0];
     if (!file) return;
 
-    Papa.parse(file, {
+    Papa.parse<string[]>(file, {
       complete: (results) => {
-        const csvTickets = results.data
-          .flat()
-          .map((v: any) => String(v).trim())
-          .filter((v: string) => v.length > 0 && v !== 'ticket' && v !== 'number');
+        const [header = [], ...rows] = results.data;
+        const columns = header.map(h => String(h).trim().toLowerCase());
+        const weightColumn = columns.indexOf('weight');
+
+        if (weightColumn >= 0) {
+          // Columnar CSV with a header row: ticket,weight
+          const namedColumn = columns.findIndex(c => c === 'ticket' || c === 'number');
+          const ticketColumn = namedColumn >= 0 ? namedColumn : weightColumn === 0 ? 1 : 0;
+          const byWeight = new Map<number, string[]>();
+          let invalid = 0;
+
+          rows.forEach(row => {
+            const ticket = String(row[ticketColumn] ?? '').trim();
+            if (!ticket) return;
+            const weight = Number(String(row[weightColumn] ?? '').trim() || '1');
+            if (!isValidWeight(weight) || !isValidTicket(ticket, ticketFormat)) {
+              invalid++;
+              return;
+            }
+            const normalized = normalizeTicket(ticket, ticketFormat);
+            const weighted = byWeight.get(weight);
+            if (weighted) weighted.push(normalized);
+            else byWeight.set(weight, [normalized]);
+          });
+
+          const imported = [...byWeight.values()].flat();
+          if (imported.length === 0) {
+            toast({
+              title: 'No tickets found',
+              description: 'CSV file is empty or invalid',
+              variant: 'destructive',
+            });
+            return;
+          }
+
+          onAddTickets(imported);
+          byWeight.forEach((weighted, weight) => onSetTicketWeights(weighted, weight));
+          toast({
+            title: 'CSV imported',
+            description: `Imported ${imported.length} weighted tickets${invalid > 0 ? ` (${invalid} with an invalid weight or ticket number skipped)` : ''}`,
+          });
+          return;
+        }
+
+        const { valid: csvTickets, invalid } = prepareTickets(
+          results.data
+            .flat()
+            .map(v => String(v).trim())
+            .filter(v => v.length > 0 && v !== 'ticket' && v !== 'number')
+        );
 
         if (csvTickets.length === 0) {
           toast({
@@ -124,7 +293,7 @@ export function TicketManagement({
         onAddTickets(csvTickets);
         toast({
           title: 'CSV imported',
-          description: `Imported ${csvTickets.length} tickets`,
+          description: `Imported ${csvTickets.length} tickets${invalidNote(invalid)}`,
         });
       },
       error: () => {
@@ -148,11 +317,46 @@ export function TicketManagement({
           <Ticket className="h-5 w-5 text-primary" />
           Ticket Management
           <Badge variant="secondary" className="ml-auto">
-            {tickets.length} tickets
+            {tickets.length.toLocaleString()} tickets
           </Badge>
+          {(['unsold', 'void', 'refunded'] as const).map(
+            status =>
+              statusCounts[status] > 0 && (
+                <Badge key={status} variant="outline">
+                  {statusCounts[status].toLocaleString()} {TICKET_STATUS_LABELS[status].toLowerCase()}
+                </Badge>
+              )
+          )}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
+        {/* Ticket Format */}
+        <div className="space-y-2">
+          <Label className="text-sm font-medium">Ticket Format</Label>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Free-form, or e.g. EVT-#####"
+              value={formatInput}
+              onChange={(e) => setFormatInput(e.target.value)}
+              className="flex-1 font-mono"
+            />
+            <Button
+              onClick={handleSaveFormat}
+              size="icon"
+              variant="secondary"
+              title="Save format"
+              disabled={formatInput.trim() === (ticketFormat ? formatPattern(ticketFormat) : '')}
+            >
+              <Check className="h-4 w-4" />
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {ticketFormat
+              ? `Tickets look like ${formatTicket(EXAMPLE_TICKET, ticketFormat)}; ${EXAMPLE_TICKET} and 00${EXAMPLE_TICKET} are read as the same ticket`
+              : '# stands for a digit of the zero-padded number'}
+          </p>
+        </div>
+
         {/* Bulk Entry */}
         <div className="space-y-2">
           <Label className="text-sm font-medium">Bulk Entry</Label>
@@ -163,6 +367,15 @@ export function TicketManagement({
               onChange={(e) => setBulkInput(e.target.value)}
               className="flex-1"
             />
+            <Input
+              type="number"
+              min={1}
+              title="Entries per ticket (weight)"
+              placeholder="×1"
+              value={bulkWeight}
+              onChange={(e) => setBulkWeight(e.target.value)}
+              className="w-16"
+            />
             <Button onClick={handleBulkAdd} size="icon" variant="secondary">
               <Plus className="h-4 w-4" />
             </Button>
@@ -192,6 +405,38 @@ export function TicketManagement({
               Add Range
             </Button>
           </div>
+          <div className="flex gap-2">
+            <Input
+              placeholder="Prefix"
+              value={ticketFormat ? ticketFormat.prefix : rangePrefix}
+              onChange={(e) => setRangePrefix(e.target.value)}
+              disabled={!!ticketFormat}
+              className="flex-1"
+            />
+            <Input
+              type="number"
+              min={1}
+              placeholder="Digits"
+              title="Zero-pad numbers to this many digits"
+              value={ticketFormat ? ticketFormat.digits : rangeDigits}
+              onChange={(e) => setRangeDigits(e.target.value)}
+              disabled={!!ticketFormat}
+              className="w-20"
+            />
+            <Input
+              placeholder="Suffix"
+              value={ticketFormat ? ticketFormat.suffix : rangeSuffix}
+              onChange={(e) => setRangeSuffix(e.target.value)}
+              disabled={!!ticketFormat}
+              className="flex-1"
+            />
+          </div>
+          {rangeFormat && (
+            <p className="text-xs text-muted-foreground">
+              e.g. {formatTicket(parseInt(rangeStart) || EXAMPLE_TICKET, rangeFormat)}
+              {ticketFormat && ' (event format)'}
+            </p>
+          )}
         </div>
 
         {/* Import Options */}
@@ -213,6 +458,10 @@ export function TicketManagement({
               <Upload className="h-4 w-4 mr-2" />
               From CSV
             </Button>
+            <Button variant="outline" onClick={() => setIsScannerOpen(true)} className="flex-1">
+              <ScanLine className="h-4 w-4 mr-2" />
+              Scan
+            </Button>
             {onImportFromOwners && (
               <Button
                 variant="outline"
@@ -226,12 +475,10 @@ export function TicketManagement({
                     });
                     return;
                   }
-                  const existingSet = new Set(tickets);
-                  const unique = ownerTickets.filter(t => !existingSet.has(t));
-                  onAddTickets(unique);
+                  const added = onAddTickets(ownerTickets);
                   toast({
                     title: 'Tickets imported',
-                    description: `Added ${unique.length} tickets from owners${ownerTickets.length - unique.length > 0 ? ` (${ownerTickets.length - unique.length} duplicates skipped)` : ''}`,
+                    description: `Added ${added} tickets from owners${ownerTickets.length - added > 0 ? ` (${ownerTickets.length - added} duplicates skipped)` : ''}`,
                   });
                 }}
                 className="flex-1"
@@ -241,8 +488,17 @@ export function TicketManagement({
               </Button>
             )}
           </div>
+          <p className="text-xs text-muted-foreground">
+            CSV: tickets in any cells, or a header row with ticket,weight columns
+          </p>
         </div>
 
+        {/* Ticket Status */}
+        <TicketStatusSection
+          ticketFormat={ticketFormat}
+          onChangeTicketStatus={onChangeTicketStatus}
+        />
+
         {/* Ticket Pool Display */}
         <div className="space-y-2">
           <div className="flex items-center justify-between">
@@ -259,28 +515,21 @@ export function TicketManagement({
               </Button>
             )}
           </div>
-          <ScrollArea className="h-32 rounded-md border bg-muted/30 p-2">
-            {tickets.length === 0 ? (
-              <div className="flex flex-col items-center justify-center h-full text-muted-foreground">
-                <FileSpreadsheet className="h-8 w-8 mb-2 opacity-50" />
-                <p className="text-sm">No tickets added yet</p>
-              </div>
-            ) : (
-              <div className="flex flex-wrap gap-1">
-                {tickets.slice(0, 100).map((ticket) => (
-                  <Badge key={ticket} variant="outline" className="text-xs">
-                    {ticket}
-                  </Badge>
-                ))}
-                {tickets.length > 100 && (
-                  <Badge variant="secondary" className="text-xs">
-                    +{tickets.length - 100} more
-                  </Badge>
-                )}
-              </div>
-            )}
-          </ScrollArea>
+          <TicketPoolList
+            tickets={tickets}
+            weightOf={weightOf}
+            showWeights={hasWeights}
+            totalWeight={totalWeight}
+            statusOf={ticketStatusOf}
+            onRemoveTickets={onRemoveTickets}
+          />
         </div>
+
+        <TicketScanner
+          open={isScannerOpen}
+          onOpenChange={setIsScannerOpen}
+          onScanTicket={onScanTicket}
+        />
       </CardContent>
     </Card>
   );
@@ -0,0 +1,162 @@
+import { useDeferredValue, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FileSpreadsheet, Search, Trash2, X } from 'lucide-react';
+import { WeightOf } from '@/lib/drawEngine';
+import { TICKET_STATUS_LABELS } from '@/lib/ticketStatus';
+import { TicketStatus } from '@/types/raffle';
+
+interface TicketPoolListProps {
+  tickets: string[];
+  weightOf: WeightOf;
+  showWeights: boolean;
+  totalWeight: number;
+  /** Status of each ticket, when some are not sold. */
+  statusOf?: (ticket: string) => TicketStatus;
+  onRemoveTickets: (tickets: string[]) => void;
+}
+
+const ROW_HEIGHT = 28;
+const COLUMNS = 3;
+const VIEWPORT_HEIGHT = 192;
+// Rows rendered above and below the visible ones
+const OVERSCAN = 4;
+
+const formatOdds = (odds: number) =>
+  odds >= 0.001 ? `${(odds * 100).toFixed(1)}%` : `${(odds * 100).toPrecision(2)}%`;
+
+/** Searchable ticket pool that only renders the rows in view. */
+export function TicketPoolList({
+  tickets,
+  weightOf,
+  showWeights,
+  totalWeight,
+  statusOf,
+  onRemoveTickets,
+}: TicketPoolListProps) {
+  const [query, setQuery] = useState('');
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewportRef = useRef<HTMLDivElement>(null);
+
+  // Filtering a huge pool must not hold up typing
+  const deferredQuery = useDeferredValue(query.trim());
+  const matches = useMemo(
+    () => (deferredQuery ? tickets.filter(t => t.includes(deferredQuery)) : tickets),
+    [tickets, deferredQuery]
+  );
+
+  const rowCount = Math.ceil(matches.length / COLUMNS);
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(rowCount, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const visible = matches.slice(firstRow * COLUMNS, lastRow * COLUMNS);
+
+  const handleSearch = (value: string) => {
+    setQuery(value);
+    setScrollTop(0);
+    if (viewportRef.current) viewportRef.current.scrollTop = 0;
+  };
+
+  if (tickets.length === 0) {
+    return (
+      <div className="h-32 rounded-md border bg-muted/30 flex flex-col items-center justify-center text-muted-foreground">
+        <FileSpreadsheet className="h-8 w-8 mb-2 opacity-50" />
+        <p className="text-sm">No tickets added yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search tickets"
+            value={query}
+            onChange={e => handleSearch(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        {deferredQuery && matches.length > 0 && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-10 text-destructive hover:text-destructive"
+            onClick={() => {
+              onRemoveTickets(matches);
+              handleSearch('');
+            }}
+          >
+            <Trash2 className="h-3 w-3 mr-1" />
+            Remove {matches.length.toLocaleString()}
+          </Button>
+        )}
+      </div>
+      {deferredQuery && (
+        <p className="text-xs text-muted-foreground">
+          {matches.length.toLocaleString()} of {tickets.length.toLocaleString()} tickets match
+        </p>
+      )}
+      <div
+        ref={viewportRef}
+        className="overflow-y-auto rounded-md border bg-muted/30 px-2"
+        style={{ height: VIEWPORT_HEIGHT }}
+        onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div className="relative" style={{ height: rowCount * ROW_HEIGHT }}>
+          <div
+            className="absolute inset-x-0 grid gap-x-1"
+            style={{
+              top: firstRow * ROW_HEIGHT,
+              gridTemplateColumns: `repeat(${COLUMNS}, minmax(0, 1fr))`,
+            }}
+          >
+            {visible.map(ticket => {
+              const status = statusOf?.(ticket) ?? 'sold';
+              return (
+                <div
+                  key={ticket}
+                  className="group flex items-center gap-1 text-xs font-mono min-w-0"
+                  style={{ height: ROW_HEIGHT }}
+                  title={
+                    status === 'sold'
+                      ? `Odds of winning the next pick: ${formatOdds(weightOf(ticket) / totalWeight)}`
+                      : `${TICKET_STATUS_LABELS[status]}: not drawn`
+                  }
+                >
+                  <span
+                    className={
+                      status === 'sold' ? 'truncate' : 'truncate line-through text-muted-foreground'
+                    }
+                  >
+                    {ticket}
+                  </span>
+                  {status !== 'sold' && (
+                    <span className="text-muted-foreground shrink-0">
+                      {TICKET_STATUS_LABELS[status].toLowerCase()}
+                    </span>
+                  )}
+                  {showWeights && status === 'sold' && (
+                    <span className="text-muted-foreground shrink-0">
+                      ×{weightOf(ticket)} · {formatOdds(weightOf(ticket) / totalWeight)}
+                    </span>
+                  )}
+                  <button
+                    className="ml-auto opacity-0 group-hover:opacity-100 text-destructive shrink-0"
+                    title={`Remove ticket ${ticket}`}
+                    onClick={() => onRemoveTickets([ticket])}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+        {matches.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center py-8">No tickets match</p>
+        )}
+      </div>
+    </div>
+  );
+}
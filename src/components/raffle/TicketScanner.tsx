@@ -0,0 +1,331 @@
+import { useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Camera, CameraOff, ImageIcon, RotateCcw } from 'lucide-react';
+import {
+  TicketDecoder,
+  beep,
+  createBarcodeDetectorDecoder,
+  createRepeatFilter,
+} from '@/lib/ticketScanner';
+import { ScanMode, ScanOutcome } from '@/types/raffle';
+import { cn } from '@/lib/utils';
+
+interface TicketScannerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScanTicket: (code: string, mode: ScanMode) => { ticket: string; outcome: ScanOutcome };
+  /** Replaces the browser's BarcodeDetector, e.g. with a decoder library. */
+  decoder?: TicketDecoder;
+}
+
+interface ScanLogEntry {
+  id: number;
+  ticket: string;
+  outcome: ScanOutcome;
+}
+
+const OUTCOME_LABELS: Record<ScanOutcome, string> = {
+  added: 'Added',
+  sold: 'Sold',
+  duplicate: 'Duplicate',
+  unknown: 'Not in pool',
+  void: 'Void',
+  invalid: 'Invalid',
+};
+
+const isGoodScan = (outcome: ScanOutcome) => outcome === 'added' || outcome === 'sold';
+
+const EMPTY_TALLY: Record<ScanOutcome, number> = {
+  added: 0,
+  sold: 0,
+  duplicate: 0,
+  unknown: 0,
+  void: 0,
+  invalid: 0,
+};
+
+// Pause between decoded camera frames
+const FRAME_INTERVAL_MS = 200;
+const FLASH_MS = 400;
+const LOG_LENGTH = 50;
+
+/**
+ * Door scanning: reads ticket codes from the camera, still images or the
+ * keyboard (handheld scanners type like one), adding each ticket to the pool
+ * or marking it sold. The tally lasts until a new session is started.
+ */
+export function TicketScanner({ open, onOpenChange, onScanTicket, decoder }: TicketScannerProps) {
+  const [mode, setMode] = useState<ScanMode>('add');
+  const [activeDecoder, setActiveDecoder] = useState<TicketDecoder | null>(decoder ?? null);
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const [manualInput, setManualInput] = useState('');
+  const [tally, setTally] = useState(EMPTY_TALLY);
+  const [log, setLog] = useState<ScanLogEntry[]>([]);
+  const [flash, setFlash] = useState<ScanOutcome | null>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const flashTimer = useRef<ReturnType<typeof setTimeout>>();
+  const nextId = useRef(0);
+
+  useEffect(() => {
+    if (decoder) {
+      setActiveDecoder(decoder);
+      return;
+    }
+    let cancelled = false;
+    createBarcodeDetectorDecoder()
+      .then(created => !cancelled && setActiveDecoder(created))
+      .catch(() => !cancelled && setActiveDecoder(null));
+    return () => {
+      cancelled = true;
+    };
+  }, [decoder]);
+
+  const handleCode = (code: string) => {
+    const { ticket, outcome } = onScanTicket(code, mode);
+    setTally(t => ({ ...t, [outcome]: t[outcome] + 1 }));
+    const entry = { id: nextId.current++, ticket: ticket || code, outcome };
+    setLog(l => [entry, ...l].slice(0, LOG_LENGTH));
+    beep(isGoodScan(outcome) ? 'ok' : 'error');
+    clearTimeout(flashTimer.current);
+    setFlash(outcome);
+    flashTimer.current = setTimeout(() => setFlash(null), FLASH_MS);
+  };
+
+  // The camera loop outlives renders, so it calls the latest handler
+  const handleCodeRef = useRef(handleCode);
+  handleCodeRef.current = handleCode;
+
+  useEffect(() => () => clearTimeout(flashTimer.current), []);
+
+  useEffect(() => {
+    if (!open || !cameraOn || !activeDecoder) return;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout>;
+    let stopped = false;
+    const dropRepeats = createRepeatFilter();
+
+    const readFrame = async () => {
+      const video = videoRef.current;
+      if (video && video.readyState >= video.HAVE_CURRENT_DATA) {
+        try {
+          dropRepeats(await activeDecoder.decode(video)).forEach(code =>
+            handleCodeRef.current(code)
+          );
+        } catch {
+          // An unreadable frame; try the next one
+        }
+      }
+      if (!stopped) timer = setTimeout(readFrame, FRAME_INTERVAL_MS);
+    };
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(media => {
+        stream = media;
+        if (stopped) {
+          media.getTracks().forEach(t => t.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = media;
+          void videoRef.current.play();
+        }
+        setCameraError(null);
+        readFrame();
+      })
+      .catch(() => {
+        setCameraError('Camera not available; enter tickets by hand');
+        setCameraOn(false);
+      });
+
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach(t => t.stop());
+    };
+  }, [open, cameraOn, activeDecoder]);
+
+  const handleManualSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    manualInput
+      .split(/[,\s]+/)
+      .filter(code => code.length > 0)
+      .forEach(handleCode);
+    setManualInput('');
+  };
+
+  const handleImage = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
+    if (!file || !activeDecoder) return;
+    try {
+      const codes = await activeDecoder.decode(await createImageBitmap(file));
+      if (codes.length === 0) setCameraError('No code found in the image');
+      codes.forEach(handleCode);
+    } catch {
+      setCameraError('Could not read the image');
+    }
+  };
+
+  const handleNewSession = () => {
+    setTally(EMPTY_TALLY);
+    setLog([]);
+  };
+
+  const scanCount = Object.values(tally).reduce((sum, n) => sum + n, 0);
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={next => {
+        if (!next) setCameraOn(false);
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Scan Tickets</DialogTitle>
+          <DialogDescription>
+            Scan ticket codes with the camera or a handheld scanner, or type them in
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup
+          value={mode}
+          onValueChange={v => setMode(v as ScanMode)}
+          className="flex gap-4"
+        >
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="add" id="scan-add" />
+            <Label htmlFor="scan-add">Add to pool</Label>
+          </div>
+          <div className="flex items-center gap-2">
+            <RadioGroupItem value="sell" id="scan-sell" />
+            <Label htmlFor="scan-sell">Mark pool tickets sold</Label>
+          </div>
+        </RadioGroup>
+
+        <div
+          className={cn(
+            'relative aspect-video rounded-md border bg-muted/30 overflow-hidden flex items-center justify-center',
+            flash && 'ring-4',
+            flash && (isGoodScan(flash) ? 'ring-green-500' : 'ring-destructive')
+          )}
+        >
+          {cameraOn ? (
+            <video ref={videoRef} className="h-full w-full object-cover" muted playsInline />
+          ) : (
+            <p className="text-sm text-muted-foreground px-4 text-center">
+              {activeDecoder
+                ? 'Camera off'
+                : 'This browser cannot read codes from the camera; use manual entry or a handheld scanner'}
+            </p>
+          )}
+          {flash && (
+            <div
+              className={cn(
+                'absolute inset-0 flex items-center justify-center text-2xl font-bold text-white',
+                isGoodScan(flash) ? 'bg-green-500/60' : 'bg-destructive/70'
+              )}
+            >
+              {OUTCOME_LABELS[flash]}
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={!activeDecoder}
+            onClick={() => setCameraOn(on => !on)}
+          >
+            {cameraOn ? <CameraOff className="h-4 w-4 mr-2" /> : <Camera className="h-4 w-4 mr-2" />}
+            {cameraOn ? 'Stop Camera' : 'Start Camera'}
+          </Button>
+          <input
+            type="file"
+            accept="image/*"
+            onChange={handleImage}
+            ref={fileInputRef}
+            className="hidden"
+          />
+          <Button
+            variant="outline"
+            className="flex-1"
+            disabled={!activeDecoder}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <ImageIcon className="h-4 w-4 mr-2" />
+            Scan Image
+          </Button>
+        </div>
+        {cameraError && <p className="text-xs text-destructive">{cameraError}</p>}
+
+        <form onSubmit={handleManualSubmit} className="flex gap-2">
+          <Input
+            autoFocus
+            placeholder="Ticket number, then Enter"
+            value={manualInput}
+            onChange={e => setManualInput(e.target.value)}
+            className="flex-1 font-mono"
+          />
+          <Button type="submit" variant="secondary" disabled={!manualInput.trim()}>
+            Enter
+          </Button>
+        </form>
+
+        {/* Session tally */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">
+              This session: {scanCount} {scanCount === 1 ? 'scan' : 'scans'}
+            </Label>
+            <Button variant="ghost" size="sm" onClick={handleNewSession} disabled={scanCount === 0}>
+              <RotateCcw className="h-3 w-3 mr-1" />
+              New Session
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            {(Object.keys(OUTCOME_LABELS) as ScanOutcome[])
+              .filter(outcome => tally[outcome] > 0)
+              .map(outcome => (
+                <Badge key={outcome} variant={isGoodScan(outcome) ? 'secondary' : 'destructive'}>
+                  {OUTCOME_LABELS[outcome]}: {tally[outcome]}
+                </Badge>
+              ))}
+          </div>
+          {log.length > 0 && (
+            <div className="max-h-32 overflow-y-auto rounded-md border bg-muted/30 px-2 py-1">
+              {log.map(entry => (
+                <div key={entry.id} className="flex justify-between text-xs font-mono py-0.5">
+                  <span className="truncate">{entry.ticket}</span>
+                  <span
+                    className={
+                      isGoodScan(entry.outcome) ? 'text-muted-foreground' : 'text-destructive'
+                    }
+                  >
+                    {OUTCOME_LABELS[entry.outcome]}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,182 @@
+import { useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Upload } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import Papa from 'papaparse';
+import { MAX_RANGE_SIZE, readTicketInput } from '@/lib/ticketPool';
+import { TICKET_STATUSES, TICKET_STATUS_LABELS, statusNeedsReason } from '@/lib/ticketStatus';
+import { TicketFormat, TicketStatus } from '@/types/raffle';
+
+interface TicketStatusSectionProps {
+  ticketFormat: TicketFormat | null;
+  onChangeTicketStatus: (tickets: string[], status: TicketStatus, reason?: string) => number;
+}
+
+const isTicketStatus = (value: string): value is TicketStatus =>
+  (TICKET_STATUSES as string[]).includes(value);
+
+/** Marks tickets of the pool as sold, unsold, void or refunded. */
+export function TicketStatusSection({ ticketFormat, onChangeTicketStatus }: TicketStatusSectionProps) {
+  const { toast } = useToast();
+  const [status, setStatus] = useState<TicketStatus>('void');
+  const [ticketInput, setTicketInput] = useState('');
+  const [reason, setReason] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleApply = () => {
+    if (!ticketInput.trim()) return;
+    if (statusNeedsReason(status) && !reason.trim()) {
+      toast({
+        title: 'Reason required',
+        description: `Say why the tickets are ${TICKET_STATUS_LABELS[status].toLowerCase()}`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const tickets = readTicketInput(ticketInput, ticketFormat);
+    if (!tickets) {
+      toast({
+        title: 'Invalid range',
+        description: `Start must not exceed end, with at most ${MAX_RANGE_SIZE.toLocaleString()} tickets`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const changed = onChangeTicketStatus(tickets, status, reason);
+    if (changed === 0) {
+      toast({
+        title: 'No tickets changed',
+        description: 'None of these tickets are in the pool',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setTicketInput('');
+    setReason('');
+    toast({
+      title: 'Ticket status updated',
+      description: `Marked ${changed.toLocaleString()} tickets as ${TICKET_STATUS_LABELS[status].toLowerCase()}${tickets.length > changed ? ` (${(tickets.length - changed).toLocaleString()} not in the pool skipped)` : ''}`,
+    });
+  };
+
+  const handleCSVImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    Papa.parse<Record<string, string>>(file, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: h => h.trim().toLowerCase(),
+      complete: results => {
+        // Rows sharing a status and reason are applied together
+        const groups = new Map<string, { status: TicketStatus; reason: string; tickets: string[] }>();
+        let invalid = 0;
+
+        results.data.forEach(row => {
+          const ticket = (row.ticket ?? row.number ?? '').trim();
+          const rowStatus = (row.status ?? '').trim().toLowerCase();
+          const rowReason = (row.reason ?? '').trim();
+          if (!ticket || !isTicketStatus(rowStatus) || (statusNeedsReason(rowStatus) && !rowReason)) {
+            invalid++;
+            return;
+          }
+          const key = `${rowStatus}\n${statusNeedsReason(rowStatus) ? rowReason : ''}`;
+          const group = groups.get(key);
+          if (group) group.tickets.push(ticket);
+          else groups.set(key, { status: rowStatus, reason: rowReason, tickets: [ticket] });
+        });
+
+        if (groups.size === 0) {
+          toast({
+            title: 'No statuses found',
+            description: 'Expected a header row with ticket,status,reason columns',
+            variant: 'destructive',
+          });
+          return;
+        }
+
+        let changed = 0;
+        groups.forEach(g => (changed += onChangeTicketStatus(g.tickets, g.status, g.reason)));
+        toast({
+          title: 'Statuses imported',
+          description: `Updated ${changed.toLocaleString()} tickets${invalid > 0 ? ` (${invalid} rows with an unknown status or missing reason skipped)` : ''}`,
+        });
+      },
+      error: () => {
+        toast({
+          title: 'Import failed',
+          description: 'Could not parse CSV file',
+          variant: 'destructive',
+        });
+      },
+    });
+
+    if (fileInputRef.current) {
+      fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label className="text-sm font-medium">Ticket Status</Label>
+      <div className="flex gap-2">
+        <Select value={status} onValueChange={v => setStatus(v as TicketStatus)}>
+          <SelectTrigger className="w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {TICKET_STATUSES.map(s => (
+              <SelectItem key={s} value={s}>
+                {TICKET_STATUS_LABELS[s]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          placeholder="Tickets, or a range like 100-250"
+          value={ticketInput}
+          onChange={e => setTicketInput(e.target.value)}
+          className="flex-1"
+        />
+      </div>
+      <div className="flex gap-2">
+        {statusNeedsReason(status) && (
+          <Input
+            placeholder="Reason"
+            value={reason}
+            onChange={e => setReason(e.target.value)}
+            className="flex-1"
+          />
+        )}
+        <Button onClick={handleApply} variant="secondary" className="ml-auto">
+          Apply
+        </Button>
+        <input
+          type="file"
+          accept=".csv"
+          onChange={handleCSVImport}
+          ref={fileInputRef}
+          className="hidden"
+        />
+        <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="h-4 w-4 mr-2" />
+          CSV
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Only sold tickets are drawn. CSV: a header row with ticket,status,reason columns
+      </p>
+    </div>
+  );
+}
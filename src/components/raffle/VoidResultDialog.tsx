@@ -0,0 +1,147 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Ban } from 'lucide-react';
+import { DrawResult, VoidOptions } from '@/types/raffle';
+import { useToast } from '@/hooks/use-toast';
+
+interface VoidResultDialogProps {
+  result: DrawResult | null;
+  onClose: () => void;
+  onVoidResult: (resultId: string, reason: string, options: VoidOptions) => DrawResult | null;
+}
+
+const REASON_PRESETS = ['Winner absent', 'Winner ineligible', 'Prize declined', 'Prize unclaimed'];
+
+export function VoidResultDialog({ result, onClose, onVoidResult }: VoidResultDialogProps) {
+  const { toast } = useToast();
+  const [reason, setReason] = useState('');
+  const [ticketHandling, setTicketHandling] = useState<'exclude' | 'return'>('exclude');
+  const [replacementSource, setReplacementSource] = useState<'alternate' | 'redraw' | null>(null);
+
+  const hasAlternates = !!result?.alternates?.length;
+  // Default to the alternates when the result has any
+  const source = replacementSource ?? (hasAlternates ? 'alternate' : 'redraw');
+
+  const handleClose = () => {
+    setReason('');
+    setTicketHandling('exclude');
+    setReplacementSource(null);
+    onClose();
+  };
+
+  const handleVoid = () => {
+    if (!result || !reason.trim()) return;
+
+    const replacement = onVoidResult(result.id, reason.trim(), {
+      returnTicket: ticketHandling === 'return',
+      promoteAlternate: source === 'alternate',
+    });
+    if (replacement) {
+      toast({
+        title: `Ticket #${result.ticketNumber} voided`,
+        description: replacement.promotedAlternate
+          ? `${replacement.prize.name} goes to alternate #${replacement.promotedAlternate}, ticket #${replacement.ticketNumber}`
+          : `${replacement.prize.name} goes to replacement ticket #${replacement.ticketNumber}`,
+      });
+    } else {
+      toast({
+        title: `Ticket #${result.ticketNumber} voided`,
+        description:
+          source === 'alternate'
+            ? `No alternate is still eligible. ${result.prize.name} is available again.`
+            : `No eligible ticket left to redraw. ${result.prize.name} is available again.`,
+        variant: 'destructive',
+      });
+    }
+    handleClose();
+  };
+
+  return (
+    <Dialog open={result !== null} onOpenChange={open => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Void & Redraw</DialogTitle>
+          <DialogDescription>
+            Void ticket #{result?.ticketNumber} for "{result?.prize.name}" and hand the prize to a
+            replacement winner. The voided result stays in the history.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="void-reason">Reason</Label>
+            <Input
+              id="void-reason"
+              placeholder="Why is this result voided?"
+              value={reason}
+              onChange={e => setReason(e.target.value)}
+            />
+            <div className="flex flex-wrap gap-1">
+              {REASON_PRESETS.map(preset => (
+                <Button key={preset} variant="outline" size="sm" onClick={() => setReason(preset)}>
+                  {preset}
+                </Button>
+              ))}
+            </div>
+          </div>
+          {hasAlternates && (
+            <div className="space-y-2">
+              <Label>Replacement</Label>
+              <RadioGroup
+                value={source}
+                onValueChange={value => setReplacementSource(value as 'alternate' | 'redraw')}
+              >
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="alternate" id="void-alternate" />
+                  <Label htmlFor="void-alternate">
+                    Next alternate (
+                    {result.alternates.map(a => `#${a.rank}: ${a.ticketNumber}`).join(', ')})
+                  </Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="redraw" id="void-redraw" />
+                  <Label htmlFor="void-redraw">Random redraw from the pool</Label>
+                </div>
+              </RadioGroup>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label>Voided ticket</Label>
+            <RadioGroup
+              value={ticketHandling}
+              onValueChange={value => setTicketHandling(value as 'exclude' | 'return')}
+            >
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="exclude" id="void-exclude" />
+                <Label htmlFor="void-exclude">Exclude it from further draws</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <RadioGroupItem value="return" id="void-return" />
+                <Label htmlFor="void-return">Return it to the pool</Label>
+              </div>
+            </RadioGroup>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleVoid} disabled={!reason.trim()}>
+            <Ban className="h-4 w-4 mr-2" />
+            Void & Replace
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
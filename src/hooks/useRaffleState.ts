@@ -1,4 +1,5 @@
 import { create } from 'zustand';
+import { persist } from 'zustand/middleware';
 import {
   Prize,
   DrawResult,
@@ -6,277 +7,1200 @@ import {
   Category,
   GroupSize,
   TicketOwner,
+  OwnerProfile,
+  RaffleEvent,
+  RaffleEventData,
+  DuplicateEventOptions,
+  DrawOptions,
+  DrawRound,
+  EliminatedTicket,
+  EliminationGame,
+  EliminationSetup,
+  VoidOptions,
+  DrawCommitment,
+  FairnessProof,
+  EligibilityRules,
+  TicketFormat,
+  TicketStatus,
+  TicketStatusGroup,
+  ScanMode,
+  ScanOutcome,
+  PriceTier,
+  Sale,
+  SellerBook,
+  MissingTicketHandling,
 } from '@/types/raffle';
+import {
+  RAFFLE_STORAGE_KEY,
+  RAFFLE_STORAGE_VERSION,
+  RaffleStorageError,
+  StorageRecovery,
+  assertArrayFields,
+  backupCorruptState,
+  createRaffleStorage,
+  discardBackup,
+  migrateRaffleState,
+} from '@/lib/raffleStorage';
+import {
+  FAIR_DRAW_ALGORITHM,
+  generateSeed,
+  hashSeed,
+  hashTicketPool,
+} from '@/lib/provablyFair';
+import { cryptoRandom, randomIndex } from '@/lib/random';
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  EligibilityContext,
+  WeightOf,
+  assignPrizes,
+  availablePrizesFor,
+  checkDraw,
+  createWeightOf,
+  drawablePrizes,
+  eliminateTickets,
+  promoteAlternate,
+  removePositions,
+  reservedPrizeIds,
+  runDraw,
+  sampleTickets,
+  standingResults,
+} from '@/lib/drawEngine';
+import { drawInWorker } from '@/lib/drawWorker';
+import { addToPool, poolIndex, removeFromPool, ticketRange } from '@/lib/ticketPool';
+import { isValidTicket, normalizeTicket, normalizeTickets } from '@/lib/ticketFormat';
+import { soldTickets } from '@/lib/sales';
+import { OWNER_PROFILE_FIELDS, cleanProfile } from '@/lib/ownerProfile';
+import { bookSellers, reconcileBook, unassignableTickets } from '@/lib/sellerBooks';
+import { dropTicketStatuses, drawPool, setTicketStatus, statusOf } from '@/lib/ticketStatus';
 
 const DEFAULT_CATEGORIES: Category[] = ['A', 'B', 'C'];
+const DEFAULT_EVENT_NAME = 'My Raffle';
 
-interface RaffleState {
+interface RaffleState extends RaffleEventData {
   // ------------------- STATE -------------------
-  tickets: string[];
-  prizes: Prize[];
-  categories: Category[];
-  owners: TicketOwner[];
+  // Top-level event fields always hold the ACTIVE event; `events[].data` of
+  // the active event is only refreshed when switching away or persisting.
+  events: RaffleEvent[];
+  activeEventId: string;
   currentResults: DrawResult[];
-  history: DrawHistoryEntry[];
   isDrawing: boolean;
+  storageRecovery: StorageRecovery | null;
+  /** Why the last save failed, e.g. the storage quota; null while saving works. */
+  storageWriteError: string | null;
+
+  // ------------------- EVENTS -------------------
+  createEvent: (name: string) => RaffleEvent;
+  switchEvent: (id: string) => void;
+  renameEvent: (id: string, name: string) => void;
+  duplicateEvent: (id: string, name: string, options: DuplicateEventOptions) => RaffleEvent;
+  setEventArchived: (id: string, isArchived: boolean) => void;
+  deleteEvent: (id: string) => boolean;
+  getActiveEvent: () => RaffleEvent;
+  isActiveEventArchived: () => boolean;
 
   // ------------------- OWNERS -------------------
-  addOwner: (name: string, ticketNumbers: string[]) => TicketOwner;
-  updateOwner: (id: string, name: string, ticketNumbers: string[]) => void;
+  addOwner: (
+    name: string,
+    ticketNumbers: string[],
+    weight?: number,
+    profile?: OwnerProfile
+  ) => TicketOwner;
+  /** Replaces the owner's contact details with `profile` when given. */
+  updateOwner: (
+    id: string,
+    name: string,
+    ticketNumbers: string[],
+    weight?: number,
+    profile?: OwnerProfile
+  ) => void;
   deleteOwner: (id: string) => void;
-  addBulkOwners: (data: { name: string; ticketNumbers: string[] }[]) => number;
+  addBulkOwners: (
+    data: ({ name: string; ticketNumbers: string[]; weight?: number } & OwnerProfile)[]
+  ) => number;
   resetOwners: () => void;
   getOwnerByTicket: (ticket: string) => TicketOwner | undefined;
   getAllTicketsFromOwners: () => string[];
 
   // ------------------- TICKETS -------------------
-  addTickets: (tickets: string[]) => void;
-  addTicketRange: (start: number, end: number) => void;
+  addTickets: (tickets: string[]) => number;
+  addTicketRange: (start: number, end: number, format?: TicketFormat | null) => number;
   removeTickets: (ticketsToRemove: string[]) => void;
   clearTickets: () => void;
+  setTicketWeights: (tickets: string[], weight: number) => void;
+  getWeightOf: () => WeightOf;
+  setTicketFormat: (format: TicketFormat | null) => number;
+  changeTicketStatus: (tickets: string[], status: TicketStatus, reason?: string) => number;
+  scanTicket: (code: string, mode: ScanMode) => { ticket: string; outcome: ScanOutcome };
+  /** Tickets whose status lets them take part in draws. */
+  getDrawPool: () => string[];
+
+  // ------------------- SALES -------------------
+  addPriceTier: (name: string, ticketCount: number, price: number) => PriceTier | null;
+  deletePriceTier: (id: string) => void;
+  /** Null when a ticket is already in the ledger or none is valid. */
+  recordSale: (sale: Omit<Sale, 'id' | 'timestamp' | 'addedTickets'>) => Sale | null;
+  /** Book tickets go back to unsold; tickets the sale added leave the pool. */
+  deleteSale: (id: string) => void;
+
+  // ------------------- SELLERS -------------------
+  /** Null when a ticket is already in another book or sold, or none is valid. */
+  assignBook: (seller: string, tickets: string[]) => SellerBook | null;
+  returnBookTickets: (bookId: string, tickets: string[]) => number;
+  reconcileSellerBook: (bookId: string, missing: MissingTicketHandling) => boolean;
+  /** False while the book still holds unsold tickets that are not accounted for. */
+  deleteSellerBook: (bookId: string) => boolean;
 
   // ------------------- CATEGORIES -------------------
   addCategory: (name: string) => boolean;
   deleteCategory: (name: string) => boolean;
 
   // ------------------- PRIZES -------------------
-  addPrize: (name: string, category: Category) => void;
-  addBulkPrizes: (data: { name: string; category: Category }[]) => number;
-  updatePrize: (id: string, name: string, category: Category) => void;
-  deletePrize: (id: string) => void;
+  addPrize: (name: string, category: Category, rank?: number) => void;
+  addBulkPrizes: (data: { name: string; category: Category; rank?: number }[]) => number;
+  /** False when the prize is reserved for an elimination draw in progress. */
+  updatePrize: (id: string, name: string, category: Category, rank?: number) => boolean;
+  /** False when the prize is reserved for an elimination draw in progress. */
+  deletePrize: (id: string) => boolean;
+  /** Unassigned prizes of the category, without those reserved for an elimination draw. */
   getAvailablePrizes: (category: Category) => Prize[];
   getPrizesByCategory: (category: Category) => Prize[];
 
   // ------------------- DRAW -------------------
+  setEligibilityRules: (rules: Partial<EligibilityRules>) => void;
+  publishCommitment: () => Promise<DrawCommitment | null>;
+  discardCommitment: () => void;
   executeDraw: (
     category: Category,
     groupSize: GroupSize,
-    onAnimationTick?: (tickets: string[]) => void
+    options?: DrawOptions
   ) => Promise<DrawResult[]>;
+  voidResult: (resultId: string, reason: string, options: VoidOptions) => DrawResult | null;
 
   clearCurrentResults: () => void;
 
+  // ------------------- PROGRAMME -------------------
+  setProgramme: (programme: DrawRound[]) => void;
+
+  // ------------------- ELIMINATION -------------------
+  startElimination: (setup: EliminationSetup) => boolean;
+  runEliminationRound: () => DrawResult[];
+  closeElimination: () => void;
+
   // ------------------- RESET -------------------
   resetAll: () => void;
+
+  // ------------------- STORAGE -------------------
+  dismissStorageRecovery: () => void;
 }
 
-export const useRaffleState = create<RaffleState>((set, get) => ({
-  // ------------------- INITIAL STATE -------------------
+interface PersistedRaffleState {
+  events: RaffleEvent[];
+  activeEventId: string;
+}
+
+// ------------------- EVENT HELPERS -------------------
+const emptyEventData = (): RaffleEventData => ({
   tickets: [],
+  ticketWeights: {},
+  ticketFormat: null,
+  ticketStatuses: [],
+  priceTiers: [],
+  sales: [],
+  sellerBooks: [],
+  eligibilityRules: DEFAULT_ELIGIBILITY_RULES,
   prizes: [],
   categories: DEFAULT_CATEGORIES,
   owners: [],
-  currentResults: [],
   history: [],
-  isDrawing: false,
+  programme: [],
+  elimination: null,
+  pendingCommitment: null,
+});
 
-  // ------------------- OWNERS -------------------
-  addOwner: (name, ticketNumbers) => {
-    const owner: TicketOwner = {
-      id: crypto.randomUUID(),
-      name,
-      ticketNumbers,
-    };
-    set(state => ({ owners: [...state.owners, owner] }));
-    return owner;
-  },
-
-  updateOwner: (id, name, ticketNumbers) =>
-    set(state => ({
-      owners: state.owners.map(o =>
-        o.id === id ? { ...o, name, ticketNumbers } : o
-      ),
-    })),
-
-  deleteOwner: id =>
-    set(state => ({
-      owners: state.owners.filter(o => o.id !== id),
-    })),
-
-  addBulkOwners: data => {
-    const newOwners: TicketOwner[] = data.map(d => ({
-      id: crypto.randomUUID(),
-      name: d.name,
-      ticketNumbers: d.ticketNumbers,
-    }));
-    set(state => ({ owners: [...state.owners, ...newOwners] }));
-    return newOwners.length;
-  },
-
-  resetOwners: () => set({ owners: [] }),
-
-  getOwnerByTicket: ticket =>
-    get().owners.find(o => o.ticketNumbers.includes(ticket)),
-
-  getAllTicketsFromOwners: () =>
-    Array.from(new Set(get().owners.flatMap(o => o.ticketNumbers))),
+const snapshotEventData = (state: RaffleEventData): RaffleEventData => ({
+  tickets: state.tickets,
+  ticketWeights: state.ticketWeights,
+  ticketFormat: state.ticketFormat,
+  ticketStatuses: state.ticketStatuses,
+  priceTiers: state.priceTiers,
+  sales: state.sales,
+  sellerBooks: state.sellerBooks,
+  eligibilityRules: state.eligibilityRules,
+  prizes: state.prizes,
+  categories: state.categories,
+  owners: state.owners,
+  history: state.history,
+  programme: state.programme,
+  elimination: state.elimination,
+  pendingCommitment: state.pendingCommitment,
+});
 
-  // ------------------- TICKETS -------------------
-  addTickets: newTickets =>
-    set(state => ({
-      tickets: [...new Set([...state.tickets, ...newTickets])],
-    })),
-
-  addTicketRange: (start, end) => {
-    const range = Array.from(
-      { length: end - start + 1 },
-      (_, i) => (start + i).toString()
-    );
-    get().addTickets(range);
-  },
-
-  removeTickets: ticketsToRemove =>
-    set(state => ({
-      tickets: state.tickets.filter(t => !ticketsToRemove.includes(t)),
-    })),
-
-  clearTickets: () => set({ tickets: [] }),
+const newEvent = (name: string, data: RaffleEventData): RaffleEvent => ({
+  id: crypto.randomUUID(),
+  name,
+  createdAt: new Date(),
+  isArchived: false,
+  data,
+});
 
-  // ------------------- CATEGORIES -------------------
-  addCategory: name => {
-    const trimmed = name.trim().toUpperCase();
-    if (!trimmed || get().categories.includes(trimmed)) return false;
-    set(state => ({ categories: [...state.categories, trimmed] }));
-    return true;
-  },
-
-  deleteCategory: name => {
-    const hasPrizes = get().prizes.some(p => p.category === name);
-    if (hasPrizes) return false;
-    set(state => ({
-      categories: state.categories.filter(c => c !== name),
-    }));
-    return true;
-  },
+// Events with the live top-level data written back into the active one
+const syncActiveEvent = (state: RaffleState): RaffleEvent[] =>
+  state.events.map(e =>
+    e.id === state.activeEventId ? { ...e, data: snapshotEventData(state) } : e
+  );
 
-  // ------------------- PRIZES -------------------
-  addPrize: (name, category) => {
-    const prize: Prize = {
-      id: crypto.randomUUID(),
-      name,
-      category,
-      isAssigned: false,
-    };
-    set(state => ({ prizes: [...state.prizes, prize] }));
-  },
-
-  addBulkPrizes: data => {
-    const newPrizes: Prize[] = data.map(p => ({
-      id: crypto.randomUUID(),
-      name: p.name,
-      category: p.category,
-      isAssigned: false,
-    }));
-    set(state => ({ prizes: [...state.prizes, ...newPrizes] }));
-    return newPrizes.length;
-  },
-
-  updatePrize: (id, name, category) =>
-    set(state => ({
-      prizes: state.prizes.map(p =>
-        p.id === id ? { ...p, name, category } : p
-      ),
-    })),
-
-  deletePrize: id =>
-    set(state => ({
-      prizes: state.prizes.filter(p => p.id !== id),
-    })),
-
-  getAvailablePrizes: category =>
-    get().prizes.filter(p => p.category === category && !p.isAssigned),
-
-  getPrizesByCategory: category =>
-    get().prizes.filter(p => p.category === category),
+const initialEvent = newEvent(DEFAULT_EVENT_NAME, emptyEventData());
 
-  // ------------------- DRAW -------------------
-  executeDraw: async (category, groupSize, onAnimationTick) => {
-    const { tickets, prizes } = get();
-    const availablePrizes = prizes.filter(
-      p => p.category === category && !p.isAssigned
-    );
-
-    if (tickets.length < groupSize || availablePrizes.length < groupSize) {
-      return [];
-    }
+// Nothing is saved while unreadable stored data waits for the user's choice,
+// so the only copy of it is never overwritten with the empty initial state
+let persistPaused = false;
 
-    set({ isDrawing: true });
-
-    // Animation phase
-    const animationDuration = 2500;
-    const tickInterval = 80;
-    const ticks = animationDuration / tickInterval;
-
-    for (let i = 0; i < ticks; i++) {
-      await new Promise(res => setTimeout(res, tickInterval));
-      if (onAnimationTick) {
-        const shuffled = [...tickets]
-          .sort(() => Math.random() - 0.5)
-          .slice(0, groupSize);
-        onAnimationTick(shuffled);
-      }
-    }
+export const useRaffleState = create<RaffleState>()(
+  persist(
+    (set, get) => {
+      // Changes to the active event's data are dropped while it is archived
+      const setEventData = (
+        partial:
+          | Partial<RaffleEventData>
+          | ((state: RaffleState) => Partial<RaffleEventData>)
+      ) => {
+        if (get().isActiveEventArchived()) return;
+        set(partial);
+      };
 
-    // Secure random draw
-    const ticketPool = [...tickets];
-    const selected: string[] = [];
+      // Winners of an elimination draw leave the pool once it is recorded
+      const recordElimination = (game: EliminationGame) => {
+        const won = new Set(game.results.map(r => r.ticketNumber));
+        const grandPrize = get().prizes.find(p => p.id === game.grandPrizeId);
+        set(state => ({
+          tickets: removeFromPool(state.tickets, won),
+          history: [
+            {
+              id: game.id,
+              results: game.results,
+              category: grandPrize?.category ?? '',
+              groupSize: game.results.length,
+              timestamp: new Date(),
+              eliminated: game.eliminated,
+            },
+            ...state.history,
+          ],
+        }));
+      };
 
-    for (let i = 0; i < groupSize; i++) {
-      const rand = new Uint32Array(1);
-      crypto.getRandomValues(rand);
-      const index = rand[0] % ticketPool.length;
-      selected.push(ticketPool[index]);
-      ticketPool.splice(index, 1);
-    }
+      const isReservedPrize = (id: string) => reservedPrizeIds(get().elimination).has(id);
 
-    const results: DrawResult[] = selected.map((ticket, i) => ({
-      id: crypto.randomUUID(),
-      ticketNumber: ticket,
-      prize: {
-        ...availablePrizes[i],
-        isAssigned: true,
-        assignedTo: ticket,
-      },
-      category,
-      timestamp: new Date(),
-    }));
-
-    set(state => ({
-      tickets: state.tickets.filter(t => !selected.includes(t)),
-      prizes: state.prizes.map(p => {
-        const match = results.find(r => r.prize.id === p.id);
-        return match
-          ? { ...p, isAssigned: true, assignedTo: match.ticketNumber }
-          : p;
-      }),
-      currentResults: results,
-      history: [
-        {
-          id: crypto.randomUUID(),
-          results,
-          category,
-          groupSize,
-          timestamp: new Date(),
+      // Number of tickets actually added
+      const addToActivePool = (tickets: string[]) => {
+        if (get().isActiveEventArchived()) return 0;
+        const { pool, added } = addToPool(get().tickets, tickets);
+        if (added > 0) setEventData({ tickets: pool });
+        return added;
+      };
+
+      const eligibilityContext = (): EligibilityContext => {
+        const { owners, history, eligibilityRules } = get();
+        const ownerByTicket = new Map<string, TicketOwner>();
+        owners.forEach(o => o.ticketNumbers.forEach(t => ownerByTicket.set(t, o)));
+        return {
+          rules: eligibilityRules,
+          ownerOf: ticket => ownerByTicket.get(ticket),
+          // Results drawn before owners were tracked on them
+          priorResults: standingResults(history.flatMap(e => e.results)).map(r =>
+            r.ownerId ? r : { ...r, ownerId: ownerByTicket.get(r.ticketNumber)?.id }
+          ),
+        };
+      };
+
+      return {
+        // ------------------- INITIAL STATE -------------------
+        ...initialEvent.data,
+        events: [initialEvent],
+        activeEventId: initialEvent.id,
+        currentResults: [],
+        isDrawing: false,
+        storageRecovery: null,
+        storageWriteError: null,
+
+        // ------------------- EVENTS -------------------
+        createEvent: name => {
+          const event = newEvent(name, emptyEventData());
+          set(state => ({ events: [...syncActiveEvent(state), event] }));
+          get().switchEvent(event.id);
+          return event;
+        },
+
+        switchEvent: id => {
+          const state = get();
+          if (state.isDrawing || id === state.activeEventId) return;
+          const events = syncActiveEvent(state);
+          const target = events.find(e => e.id === id);
+          if (!target) return;
+          set({
+            ...target.data,
+            events,
+            activeEventId: id,
+            currentResults: [],
+          });
         },
-        ...state.history,
-      ],
-      isDrawing: false,
-    }));
 
-    return results;
-  },
+        renameEvent: (id, name) =>
+          set(state => ({
+            events: state.events.map(e => (e.id === id ? { ...e, name } : e)),
+          })),
 
-  clearCurrentResults: () => set({ currentResults: [] }),
+        duplicateEvent: (id, name, options) => {
+          const events = syncActiveEvent(get());
+          const source = events.find(e => e.id === id);
+          const data = emptyEventData();
 
-  // ------------------- RESET -------------------
-  resetAll: () =>
-    set({
-      tickets: [],
-      prizes: [],
-      owners: [],
-      categories: DEFAULT_CATEGORIES,
-      currentResults: [],
-      history: [],
-      isDrawing: false,
-    }),
-}));
+          if (source) {
+            if (options.tickets) {
+              data.tickets = [...source.data.tickets];
+              data.ticketWeights = { ...source.data.ticketWeights };
+              data.ticketStatuses = source.data.ticketStatuses.map(g => ({
+                ...g,
+                tickets: [...g.tickets],
+              }));
+            }
+            if (options.categories) {
+              data.categories = [...source.data.categories];
+              // The programme is a template too; it refers to the categories
+              data.programme = source.data.programme.map(r => ({
+                ...r,
+                id: crypto.randomUUID(),
+                status: 'pending',
+              }));
+            }
+            data.eligibilityRules = source.data.eligibilityRules;
+            data.ticketFormat = source.data.ticketFormat;
+            data.priceTiers = source.data.priceTiers.map(t => ({ ...t, id: crypto.randomUUID() }));
+            if (options.owners) {
+              data.owners = source.data.owners.map(o => ({
+                ...o,
+                id: crypto.randomUUID(),
+              }));
+            }
+            if (options.prizes) {
+              data.prizes = source.data.prizes.map(p => ({
+                id: crypto.randomUUID(),
+                name: p.name,
+                category: p.category,
+                isAssigned: false,
+                rank: p.rank,
+              }));
+              // Prizes must always belong to a known category
+              const missing = data.prizes
+                .map(p => p.category)
+                .filter(c => !data.categories.includes(c));
+              data.categories = [...data.categories, ...new Set(missing)];
+            }
+          }
+
+          const event = newEvent(name, data);
+          set({ events: [...events, event] });
+          return event;
+        },
+
+        setEventArchived: (id, isArchived) =>
+          set(state => ({
+            events: state.events.map(e => (e.id === id ? { ...e, isArchived } : e)),
+          })),
+
+        deleteEvent: id => {
+          const state = get();
+          if (state.events.length <= 1) return false;
+          if (id === state.activeEventId) {
+            if (state.isDrawing) return false;
+            const fallback = state.events.find(e => e.id !== id);
+            state.switchEvent(fallback.id);
+          }
+          set(s => ({ events: s.events.filter(e => e.id !== id) }));
+          return true;
+        },
+
+        getActiveEvent: () => {
+          const { events, activeEventId } = get();
+          return events.find(e => e.id === activeEventId);
+        },
+
+        isActiveEventArchived: () => get().getActiveEvent()?.isArchived ?? false,
+
+        // ------------------- OWNERS -------------------
+        addOwner: (name, ticketNumbers, weight, profile = {}) => {
+          const owner: TicketOwner = {
+            id: crypto.randomUUID(),
+            name,
+            ticketNumbers: normalizeTickets(ticketNumbers, get().ticketFormat),
+            weight,
+            ...cleanProfile(profile),
+          };
+          setEventData(state => ({ owners: [...state.owners, owner] }));
+          return owner;
+        },
+
+        updateOwner: (id, name, ticketNumbers, weight, profile) =>
+          setEventData(state => ({
+            owners: state.owners.map(o => {
+              if (o.id !== id) return o;
+              const updated: TicketOwner = {
+                ...o,
+                name,
+                ticketNumbers: normalizeTickets(ticketNumbers, state.ticketFormat),
+                weight,
+              };
+              if (!profile) return updated;
+              OWNER_PROFILE_FIELDS.forEach(({ key }) => delete updated[key]);
+              return { ...updated, ...cleanProfile(profile) };
+            }),
+          })),
+
+        deleteOwner: id =>
+          setEventData(state => ({
+            owners: state.owners.filter(o => o.id !== id),
+          })),
+
+        addBulkOwners: data => {
+          const newOwners: TicketOwner[] = data.map(d => ({
+            id: crypto.randomUUID(),
+            name: d.name,
+            ticketNumbers: normalizeTickets(d.ticketNumbers, get().ticketFormat),
+            weight: d.weight,
+            ...cleanProfile(d),
+          }));
+          setEventData(state => ({ owners: [...state.owners, ...newOwners] }));
+          return newOwners.length;
+        },
+
+        resetOwners: () => setEventData({ owners: [] }),
+
+        getOwnerByTicket: ticket => {
+          const normalized = normalizeTicket(ticket, get().ticketFormat);
+          return get().owners.find(o => o.ticketNumbers.includes(normalized));
+        },
+
+        getAllTicketsFromOwners: () =>
+          Array.from(new Set(get().owners.flatMap(o => o.ticketNumbers))),
+
+        // ------------------- TICKETS -------------------
+        addTickets: newTickets => addToActivePool(normalizeTickets(newTickets, get().ticketFormat)),
+
+        // Generated tickets are already canonical
+        addTicketRange: (start, end, format = get().ticketFormat) =>
+          addToActivePool(ticketRange(start, end, format)),
+
+        removeTickets: ticketsToRemove =>
+          setEventData(state => ({
+            tickets: removeFromPool(state.tickets, ticketsToRemove),
+            ticketStatuses: dropTicketStatuses(state.ticketStatuses, ticketsToRemove),
+          })),
+
+        clearTickets: () => setEventData({ tickets: [], ticketWeights: {}, ticketStatuses: [] }),
+
+        setTicketWeights: (tickets, weight) =>
+          setEventData(state => {
+            const ticketWeights = { ...state.ticketWeights };
+            tickets.forEach(t => {
+              if (weight === 1) delete ticketWeights[t];
+              else ticketWeights[t] = weight;
+            });
+            return { ticketWeights };
+          }),
+
+        getWeightOf: () => createWeightOf(get().ticketWeights, get().owners),
+
+        setTicketFormat: format => {
+          if (get().isActiveEventArchived()) return 0;
+          const normalize = (tickets: string[]) => normalizeTickets(tickets, format);
+          const { tickets, ticketWeights, ticketStatuses, owners, sales, sellerBooks } = get();
+          const ticketsInFormat = [...new Set(normalize(tickets))];
+          setEventData({
+            ticketFormat: format,
+            tickets: ticketsInFormat,
+            ticketStatuses: ticketStatuses.map(g => ({ ...g, tickets: normalize(g.tickets) })),
+            ticketWeights: Object.fromEntries(
+              Object.entries(ticketWeights).map(([t, w]) => [normalizeTicket(t, format), w])
+            ),
+            owners: owners.map(o => ({ ...o, ticketNumbers: normalize(o.ticketNumbers) })),
+            sales: sales.map(sale => ({
+              ...sale,
+              tickets: normalize(sale.tickets),
+              addedTickets: sale.addedTickets && normalize(sale.addedTickets),
+            })),
+            sellerBooks: sellerBooks.map(b => ({
+              ...b,
+              tickets: normalize(b.tickets),
+              returnedTickets: normalize(b.returnedTickets),
+            })),
+          });
+          // Tickets that still do not fit the format
+          return ticketsInFormat.filter(t => !isValidTicket(t, format)).length;
+        },
+
+        changeTicketStatus: (tickets, status, reason) => {
+          if (get().isActiveEventArchived()) return 0;
+          const index = poolIndex(get().tickets);
+          const known = [...new Set(normalizeTickets(tickets, get().ticketFormat))].filter(t =>
+            index.has(t)
+          );
+          if (known.length === 0) return 0;
+          setEventData(state => ({
+            ticketStatuses: setTicketStatus(state.ticketStatuses, known, status, reason),
+          }));
+          return known.length;
+        },
+
+        getDrawPool: () => drawPool(get().tickets, get().ticketStatuses),
+
+        scanTicket: (code, mode) => {
+          const { ticketFormat, tickets, ticketStatuses } = get();
+          const scanned = code.trim();
+          if (!scanned || !isValidTicket(scanned, ticketFormat) || get().isActiveEventArchived()) {
+            return { ticket: scanned, outcome: 'invalid' };
+          }
+          const ticket = normalizeTicket(scanned, ticketFormat);
+          if (mode === 'add') {
+            const added = addToActivePool([ticket]);
+            return { ticket, outcome: added > 0 ? 'added' : 'duplicate' };
+          }
+          if (!poolIndex(tickets).has(ticket)) return { ticket, outcome: 'unknown' };
+          const status = statusOf(ticketStatuses, ticket);
+          if (status === 'sold') return { ticket, outcome: 'duplicate' };
+          if (status === 'void') return { ticket, outcome: 'void' };
+          get().changeTicketStatus([ticket], 'sold');
+          return { ticket, outcome: 'sold' };
+        },
+
+        // ------------------- SALES -------------------
+        addPriceTier: (name, ticketCount, price) => {
+          if (!Number.isInteger(ticketCount) || ticketCount < 1 || !(price >= 0)) return null;
+          if (get().isActiveEventArchived()) return null;
+          const tier: PriceTier = { id: crypto.randomUUID(), name, ticketCount, price };
+          setEventData(state => ({
+            priceTiers: [...state.priceTiers, tier].sort((a, b) => a.ticketCount - b.ticketCount),
+          }));
+          return tier;
+        },
+
+        deletePriceTier: id =>
+          setEventData(state => ({
+            priceTiers: state.priceTiers.filter(t => t.id !== id),
+          })),
+
+        recordSale: input => {
+          const { ticketFormat, sales, sellerBooks, ticketStatuses } = get();
+          const index = poolIndex(get().tickets);
+          const tickets = [
+            ...new Set(
+              normalizeTickets(
+                input.tickets.filter(t => isValidTicket(t, ticketFormat)),
+                ticketFormat
+              )
+            ),
+          ];
+          const inLedger = soldTickets(sales);
+          if (get().isActiveEventArchived() || tickets.length === 0) return null;
+          if (tickets.some(t => inLedger.has(t)) || !(input.amount >= 0)) return null;
+          // Void tickets, e.g. excluded after a voided win, cannot be sold again
+          if (tickets.some(t => statusOf(ticketStatuses, t) === 'void')) return null;
+
+          const sale: Sale = {
+            ...input,
+            id: crypto.randomUUID(),
+            timestamp: new Date(),
+            buyerName: input.buyerName.trim(),
+            // Sales from a seller's book are credited to that seller
+            seller: input.seller.trim() || (bookSellers(sellerBooks).get(tickets[0]) ?? ''),
+            tickets,
+            addedTickets: tickets.filter(t => !index.has(t)),
+          };
+          // Sold tickets join the pool, and take part in draws
+          addToActivePool(tickets);
+          get().changeTicketStatus(tickets, 'sold');
+          setEventData(state => ({ sales: [...state.sales, sale] }));
+          return sale;
+        },
+
+        deleteSale: id => {
+          const { sales, sellerBooks, ticketStatuses } = get();
+          const sale = sales.find(s => s.id === id);
+          if (!sale || get().isActiveEventArchived()) return;
+          const inBook = bookSellers(sellerBooks);
+          const added = new Set(sale.addedTickets);
+          // Only undo what the sale did: tickets voided since keep their status
+          const sold = sale.tickets.filter(t => statusOf(ticketStatuses, t) === 'sold');
+          const backToBook = sold.filter(t => inBook.has(t));
+          const leavePool = sold.filter(t => !inBook.has(t) && added.has(t));
+
+          if (backToBook.length > 0) get().changeTicketStatus(backToBook, 'unsold');
+          if (leavePool.length > 0) get().removeTickets(leavePool);
+          setEventData(state => ({
+            sales: state.sales.filter(s => s.id !== id),
+          }));
+        },
+
+        // ------------------- SELLERS -------------------
+        assignBook: (seller, ticketsToAssign) => {
+          const { ticketFormat, sales, sellerBooks, ticketStatuses } = get();
+          const tickets = [
+            ...new Set(
+              normalizeTickets(
+                ticketsToAssign.filter(t => isValidTicket(t, ticketFormat)),
+                ticketFormat
+              )
+            ),
+          ];
+          if (get().isActiveEventArchived() || !seller.trim() || tickets.length === 0) return null;
+          const pool = poolIndex(get().tickets);
+          if (unassignableTickets(tickets, sellerBooks, sales, pool, ticketStatuses).length > 0) {
+            return null;
+          }
+
+          const book: SellerBook = {
+            id: crypto.randomUUID(),
+            seller: seller.trim(),
+            createdAt: new Date(),
+            tickets,
+            returnedTickets: [],
+          };
+          // Handed-out tickets are unsold until a sale or reconciliation
+          addToActivePool(tickets);
+          get().changeTicketStatus(tickets, 'unsold');
+          setEventData(state => ({ sellerBooks: [...state.sellerBooks, book] }));
+          return book;
+        },
+
+        returnBookTickets: (bookId, ticketsToReturn) => {
+          const { ticketFormat, ticketStatuses, sellerBooks } = get();
+          const book = sellerBooks.find(b => b.id === bookId);
+          if (get().isActiveEventArchived() || !book || book.reconciledAt) return 0;
+          const inBook = new Set(book.tickets);
+          const alreadyReturned = new Set(book.returnedTickets);
+          const returned = [...new Set(normalizeTickets(ticketsToReturn, ticketFormat))].filter(
+            t => inBook.has(t) && !alreadyReturned.has(t) && statusOf(ticketStatuses, t) !== 'sold'
+          );
+          if (returned.length === 0) return 0;
+          setEventData(state => ({
+            sellerBooks: state.sellerBooks.map(b =>
+              b.id === bookId ? { ...b, returnedTickets: [...b.returnedTickets, ...returned] } : b
+            ),
+          }));
+          return returned.length;
+        },
+
+        reconcileSellerBook: (bookId, missingAs) => {
+          const book = get().sellerBooks.find(b => b.id === bookId);
+          if (get().isActiveEventArchived() || !book || book.reconciledAt) return false;
+          const { missing } = reconcileBook(book, get().ticketStatuses);
+          if (missing.length > 0) {
+            get().changeTicketStatus(
+              missing,
+              missingAs,
+              missingAs === 'void' ? `Missing from ${book.seller}'s book` : undefined
+            );
+          }
+          setEventData(state => ({
+            sellerBooks: state.sellerBooks.map(b =>
+              b.id === bookId ? { ...b, reconciledAt: new Date() } : b
+            ),
+          }));
+          return true;
+        },
+
+        deleteSellerBook: bookId => {
+          const book = get().sellerBooks.find(b => b.id === bookId);
+          if (get().isActiveEventArchived() || !book) return false;
+          // Its unsold tickets would otherwise stay out of draws for good
+          if (!book.reconciledAt && reconcileBook(book, get().ticketStatuses).missing.length > 0) {
+            return false;
+          }
+          setEventData(state => ({
+            sellerBooks: state.sellerBooks.filter(b => b.id !== bookId),
+          }));
+          return true;
+        },
+
+        // ------------------- CATEGORIES -------------------
+        addCategory: name => {
+          const trimmed = name.trim().toUpperCase();
+          if (!trimmed || get().categories.includes(trimmed)) return false;
+          if (get().isActiveEventArchived()) return false;
+          setEventData(state => ({ categories: [...state.categories, trimmed] }));
+          return true;
+        },
+
+        deleteCategory: name => {
+          const hasPrizes = get().prizes.some(p => p.category === name);
+          if (hasPrizes || get().isActiveEventArchived()) return false;
+          setEventData(state => ({
+            categories: state.categories.filter(c => c !== name),
+          }));
+          return true;
+        },
+
+        // ------------------- PRIZES -------------------
+        addPrize: (name, category, rank) => {
+          const prize: Prize = {
+            id: crypto.randomUUID(),
+            name,
+            category,
+            isAssigned: false,
+            rank,
+          };
+          setEventData(state => ({ prizes: [...state.prizes, prize] }));
+        },
+
+        addBulkPrizes: data => {
+          if (get().isActiveEventArchived()) return 0;
+          const newPrizes: Prize[] = data.map(p => ({
+            id: crypto.randomUUID(),
+            name: p.name,
+            category: p.category,
+            isAssigned: false,
+            rank: p.rank,
+          }));
+          setEventData(state => ({ prizes: [...state.prizes, ...newPrizes] }));
+          return newPrizes.length;
+        },
+
+        updatePrize: (id, name, category, rank) => {
+          if (get().isActiveEventArchived() || isReservedPrize(id)) return false;
+          setEventData(state => ({
+            prizes: state.prizes.map(p =>
+              p.id === id ? { ...p, name, category, rank } : p
+            ),
+          }));
+          return true;
+        },
+
+        deletePrize: id => {
+          if (get().isActiveEventArchived() || isReservedPrize(id)) return false;
+          setEventData(state => ({
+            prizes: state.prizes.filter(p => p.id !== id),
+          }));
+          return true;
+        },
+
+        getAvailablePrizes: category => availablePrizesFor(drawablePrizes(get().prizes, get().elimination), category),
+
+        getPrizesByCategory: category =>
+          get().prizes.filter(p => p.category === category),
+
+        // ------------------- DRAW -------------------
+        setEligibilityRules: rules =>
+          setEventData(state => ({
+            eligibilityRules: { ...state.eligibilityRules, ...rules },
+          })),
+
+        publishCommitment: async () => {
+          if (get().isActiveEventArchived()) return null;
+          const { getWeightOf } = get();
+          const tickets = get().getDrawPool();
+          const seed = generateSeed();
+          const pendingCommitment: DrawCommitment = {
+            algorithm: FAIR_DRAW_ALGORITHM,
+            commitment: await hashSeed(seed),
+            poolHash: await hashTicketPool(tickets, getWeightOf()),
+            poolSize: tickets.length,
+            seed,
+            createdAt: new Date(),
+          };
+          setEventData({ pendingCommitment });
+          return pendingCommitment;
+        },
+
+        discardCommitment: () => setEventData({ pendingCommitment: null }),
+
+        executeDraw: async (category, groupSize, options = {}) => {
+          const {
+            alternatesPerPrize = 0,
+            prizeOrder = 'fixed',
+            prizeIds,
+            roundId,
+            onAnimationTick,
+          } = options;
+          const { pendingCommitment } = get();
+          const prizes = drawablePrizes(get().prizes, get().elimination);
+          const tickets = get().getDrawPool();
+
+          if (get().isActiveEventArchived()) {
+            return [];
+          }
+
+          if (
+            checkDraw(
+              tickets,
+              prizes,
+              category,
+              groupSize,
+              prizeOrder === 'manual' ? prizeIds ?? [] : undefined
+            )
+          ) {
+            return [];
+          }
+
+          // The worker checks the pool still matches the commitment
+          let fairness: FairnessProof | undefined;
+          if (pendingCommitment) {
+            const { createdAt, ...proof } = pendingCommitment;
+            fairness = proof;
+          }
+
+          set({ isDrawing: true });
+
+          // Winners are picked in a worker while the animation plays
+          const context = eligibilityContext();
+          const drawing = drawInWorker({
+            pool: tickets,
+            prizes,
+            category,
+            groupSize,
+            ticketWeights: get().ticketWeights,
+            owners: get().owners,
+            rules: context.rules,
+            priorResults: context.priorResults,
+            alternatesPerPrize,
+            prizeOrder,
+            prizeIds,
+            fairness: fairness && {
+              seed: fairness.seed,
+              algorithm: fairness.algorithm,
+              poolHash: fairness.poolHash,
+            },
+          }).then(
+            outcome => ({ outcome }),
+            (error: Error) => ({ error })
+          );
+          // A failed draw, e.g. a pool that no longer matches the commitment, ends the animation
+          let failed = false;
+          drawing.then(drawn => {
+            failed = 'error' in drawn;
+          });
+
+          // Animation phase
+          const animationDuration = 2500;
+          const tickInterval = 80;
+          const ticks = animationDuration / tickInterval;
+
+          for (let i = 0; i < ticks && !failed; i++) {
+            await new Promise(res => setTimeout(res, tickInterval));
+            onAnimationTick?.(sampleTickets(tickets, groupSize));
+          }
+
+          const drawn = await drawing;
+          if ('error' in drawn) {
+            set({ isDrawing: false });
+            throw drawn.error;
+          }
+          const { results, selected, skipped, leavingPositions } = drawn.outcome;
+          const roundIndex = get().programme.findIndex(r => r.id === roundId);
+          const leavingPool = new Set([
+            ...selected,
+            ...results.flatMap(r => r.removedTickets ?? []),
+          ]);
+
+          set(state => ({
+            // Positions only hold for the pool the draw was made on
+            tickets:
+              state.tickets === tickets
+                ? removePositions(tickets, leavingPositions)
+                : removeFromPool(state.tickets, leavingPool),
+            prizes: assignPrizes(state.prizes, results),
+            currentResults: results,
+            history: [
+              {
+                id: crypto.randomUUID(),
+                results,
+                category,
+                groupSize,
+                timestamp: new Date(),
+                fairness,
+                availablePrizes:
+                  fairness &&
+                  availablePrizesFor(prizes, category).map(({ name, rank }) => ({ name, rank })),
+                skipped,
+                alternatesPerPrize: alternatesPerPrize || undefined,
+                prizeOrder,
+                round: roundIndex === -1 ? undefined : roundIndex + 1,
+              },
+              ...state.history,
+            ],
+            programme:
+              roundIndex === -1 || results.length === 0
+                ? state.programme
+                : state.programme.map(r => (r.id === roundId ? { ...r, status: 'drawn' } : r)),
+            pendingCommitment: fairness ? null : state.pendingCommitment,
+            isDrawing: false,
+          }));
+
+          return results;
+        },
+
+        voidResult: (resultId, reason, { returnTicket, ...options }) => {
+          if (get().isActiveEventArchived()) return null;
+
+          const entry = get().history.find(e => e.results.some(r => r.id === resultId));
+          const original = entry?.results.find(r => r.id === resultId);
+          if (!entry || !original || original.voided) return null;
+
+          // Tickets the original win took out of the pool. The owner's other
+          // tickets come back either way: the owner no longer holds the win
+          const returned = [
+            ...(returnTicket ? [original.ticketNumber] : []),
+            ...(original.removedTickets ?? []),
+          ];
+          // An excluded ticket goes back in as void, where re-adding it is a no-op
+          const excluded = returnTicket ? [] : [original.ticketNumber];
+          const pool = drawPool([...get().tickets, ...returned], get().ticketStatuses);
+          const freedPrize: Prize = { ...original.prize, isAssigned: false, assignedTo: undefined };
+
+          const context = eligibilityContext();
+          const eligibility = {
+            ...context,
+            priorResults: context.priorResults.filter(r => r.id !== resultId),
+          };
+
+          let replacement: DrawResult | null = null;
+          if (options.promoteAlternate) {
+            replacement = promoteAlternate({ result: original, pool, eligibility });
+          } else if (!checkDraw(pool, [freedPrize], original.category, 1)) {
+            // The replacement is drawn at random even in provably fair draws:
+            // the committed seed only covers the original draw
+            const [result] = runDraw({
+              pool,
+              prizes: [freedPrize],
+              category: original.category,
+              groupSize: 1,
+              pickIndex: n => randomIndex(cryptoRandom, n),
+              weightOf: get().getWeightOf(),
+              eligibility,
+            }).results;
+            if (result) replacement = { ...result, replacesId: original.id };
+          }
+
+          const voided: DrawResult = {
+            ...original,
+            voided: {
+              reason,
+              voidedAt: new Date(),
+              ticketReturned: returnTicket,
+              replacedById: replacement?.id,
+            },
+          };
+          const replaceResult = (results: DrawResult[]) =>
+            results.flatMap(r =>
+              r.id === resultId ? (replacement ? [voided, replacement] : [voided]) : [r]
+            );
+          const leavingPool = new Set(
+            replacement ? [replacement.ticketNumber, ...(replacement.removedTickets ?? [])] : []
+          );
+
+          set(state => ({
+            tickets: removeFromPool(
+              addToPool(state.tickets, [...returned, ...excluded]).pool,
+              leavingPool
+            ),
+            ticketStatuses:
+              excluded.length > 0
+                ? setTicketStatus(state.ticketStatuses, excluded, 'void', `Voided win: ${reason}`)
+                : state.ticketStatuses,
+            prizes: assignPrizes(
+              state.prizes.map(p => (p.id === freedPrize.id ? freedPrize : p)),
+              replacement ? [replacement] : []
+            ),
+            currentResults: replaceResult(state.currentResults),
+            history: state.history.map(e =>
+              e.id === entry.id ? { ...e, results: replaceResult(e.results) } : e
+            ),
+          }));
+
+          return replacement;
+        },
+
+        clearCurrentResults: () => set({ currentResults: [] }),
+
+        // ------------------- PROGRAMME -------------------
+        setProgramme: programme => setEventData({ programme }),
+
+        // ------------------- ELIMINATION -------------------
+        startElimination: setup => {
+          const { prizes, elimination } = get();
+          const grandPrize = prizes.find(p => p.id === setup.grandPrizeId && !p.isAssigned);
+          const pool = [...new Set(get().getDrawPool())];
+          if (get().isActiveEventArchived() || elimination || !grandPrize || pool.length < 2) {
+            return false;
+          }
+
+          setEventData({
+            elimination: {
+              ...setup,
+              perRound: Math.max(1, Math.floor(setup.perRound)),
+              id: crypto.randomUUID(),
+              startedAt: new Date(),
+              poolSize: pool.length,
+              survivors: pool,
+              eliminated: [],
+              round: 0,
+              results: [],
+              finished: false,
+            },
+          });
+          set({ currentResults: [] });
+          return true;
+        },
+
+        runEliminationRound: () => {
+          const game = get().elimination;
+          if (get().isActiveEventArchived() || !game || game.finished) return [];
+
+          const round = game.round + 1;
+          const { eliminated, survivors } = eliminateTickets(
+            game.survivors,
+            game.perRound,
+            n => randomIndex(cryptoRandom, n)
+          );
+          const { ownerOf } = eligibilityContext();
+          const { prizes } = get();
+
+          const award = (ticketNumber: string, prizeId: string): DrawResult | null => {
+            const prize = prizes.find(p => p.id === prizeId && !p.isAssigned);
+            if (!prize) return null;
+            const owner = ownerOf(ticketNumber);
+            return {
+              id: crypto.randomUUID(),
+              ticketNumber,
+              prize: { ...prize, isAssigned: true, assignedTo: ticketNumber },
+              category: prize.category,
+              timestamp: new Date(),
+              ownerId: owner?.id,
+              ownerName: owner?.name,
+            };
+          };
+
+          // Tickets go out one by one, so every survivor count is passed exactly once
+          const results: DrawResult[] = [];
+          eliminated.forEach((ticketNumber, i) => {
+            const survivorCount = game.survivors.length - i - 1;
+            const consolation = game.consolation.find(c => c.survivorCount === survivorCount);
+            const result = consolation && award(ticketNumber, consolation.prizeId);
+            if (result) results.push(result);
+          });
+
+          const finished = survivors.length === 1;
+          if (finished) {
+            const grand = award(survivors[0], game.grandPrizeId);
+            if (grand) results.push(grand);
+          }
+
+          const next = {
+            ...game,
+            round,
+            survivors,
+            eliminated: [
+              ...game.eliminated,
+              ...eliminated.map((ticketNumber): EliminatedTicket => ({ ticketNumber, round })),
+            ],
+            results: [...game.results, ...results],
+            finished,
+          };
+
+          set(state => ({
+            elimination: next,
+            prizes: assignPrizes(state.prizes, results),
+            currentResults: results.length > 0 ? results : state.currentResults,
+          }));
+          // A finished game stays open to show its winner until it is closed
+          if (finished) recordElimination(next);
+
+          return results;
+        },
+
+        closeElimination: () => {
+          const game = get().elimination;
+          if (get().isActiveEventArchived() || !game) return;
+          if (!game.finished && game.round > 0) recordElimination(game);
+          set({ elimination: null });
+        },
+
+        // ------------------- RESET -------------------
+        resetAll: () => {
+          if (get().isActiveEventArchived()) return;
+          set({
+            ...emptyEventData(),
+            currentResults: [],
+            isDrawing: false,
+          });
+        },
+
+        // ------------------- STORAGE -------------------
+        dismissStorageRecovery: () => {
+          const { storageRecovery } = get();
+          if (storageRecovery) discardBackup(storageRecovery);
+          persistPaused = false;
+          set({ storageRecovery: null });
+        },
+      };
+    },
+    {
+      name: RAFFLE_STORAGE_KEY,
+      version: RAFFLE_STORAGE_VERSION,
+      storage: createRaffleStorage<PersistedRaffleState>({
+        canWrite: () => !persistPaused,
+        onWrite: error => {
+          const storageWriteError = error
+            ? error instanceof Error
+              ? error.message
+              : String(error)
+            : null;
+          // Writes can happen while the store is still being created
+          queueMicrotask(() => {
+            if (useRaffleState.getState().storageWriteError !== storageWriteError) {
+              useRaffleState.setState({ storageWriteError });
+            }
+          });
+        },
+      }),
+      partialize: (state): PersistedRaffleState => ({
+        events: syncActiveEvent(state),
+        activeEventId: state.activeEventId,
+      }),
+      migrate: (persisted, version) =>
+        migrateRaffleState(persisted, version) as PersistedRaffleState,
+      merge: (persisted, current) => {
+        if (!persisted) return current;
+        const state = persisted as PersistedRaffleState;
+        assertArrayFields(state, ['events']);
+
+        const active = state.events.find(e => e.id === state.activeEventId);
+        if (!active) {
+          throw new RaffleStorageError('Stored active event is missing');
+        }
+        assertArrayFields(active.data, [
+          'tickets',
+          'ticketStatuses',
+          'priceTiers',
+          'sales',
+          'sellerBooks',
+          'prizes',
+          'categories',
+          'owners',
+          'history',
+          'programme',
+        ]);
+        return {
+          ...current,
+          ...active.data,
+          events: state.events,
+          activeEventId: state.activeEventId,
+        };
+      },
+      onRehydrateStorage: () => (_state, error) => {
+        if (!error) return;
+        persistPaused = true;
+        const storageRecovery = backupCorruptState(RAFFLE_STORAGE_KEY, error);
+        // Hydration runs synchronously while the store is being created
+        queueMicrotask(() => useRaffleState.setState({ storageRecovery }));
+      },
+    }
+  )
+);
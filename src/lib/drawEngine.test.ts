@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { Prize, TicketOwner } from '@/types/raffle';
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  DrawEngineError,
+  DrawFailureReason,
+  DrawInput,
+  checkDraw,
+  runDraw,
+  uniquePool,
+} from '@/lib/drawEngine';
+
+// Always the first remaining entry, so picks follow pool order
+const firstIndex = () => 0;
+
+const prize = (id: string, category = 'A', rank?: number): Prize => ({
+  id,
+  name: `Prize ${id}`,
+  category,
+  isAssigned: false,
+  rank,
+});
+
+const draw = (input: Partial<DrawInput>) => {
+  let id = 0;
+  return runDraw({
+    pool: ['1', '2', '3', '4', '5'],
+    prizes: [prize('p1'), prize('p2'), prize('p3')],
+    category: 'A',
+    groupSize: 2,
+    pickIndex: firstIndex,
+    timestamp: new Date(2024, 0, 1),
+    createId: () => `result-${++id}`,
+    ...input,
+  });
+};
+
+const failureOf = (input: Partial<DrawInput>): DrawFailureReason | undefined => {
+  try {
+    draw(input);
+  } catch (e) {
+    if (e instanceof DrawEngineError) return e.reason;
+    throw e;
+  }
+  return undefined;
+};
+
+describe('checkDraw', () => {
+  const prizes = [prize('p1'), prize('p2')];
+
+  it('accepts a draw with enough tickets and prizes', () => {
+    expect(checkDraw(['1', '2'], prizes, 'A', 2)).toBeNull();
+  });
+
+  it.each([0, -1, 1.5, NaN])('rejects a group size of %s', groupSize => {
+    expect(checkDraw(['1', '2'], prizes, 'A', groupSize)?.reason).toBe('invalid-group-size');
+  });
+
+  it('counts duplicate tickets once', () => {
+    const failure = checkDraw(['1', '1', '2'], [...prizes, prize('p3')], 'A', 3);
+    expect(failure?.reason).toBe('insufficient-tickets');
+    expect(failure?.message).toBe('Need 1 more tickets');
+  });
+
+  it('only counts unassigned prizes of the category', () => {
+    const failure = checkDraw(
+      ['1', '2'],
+      [prize('p1'), { ...prize('p2'), isAssigned: true }, prize('p3', 'B')],
+      'A',
+      2
+    );
+    expect(failure?.reason).toBe('insufficient-prizes');
+    expect(failure?.message).toBe('Need 1 more prizes in Category A');
+  });
+
+  it.each([
+    ['too few', ['p1']],
+    ['repeated', ['p1', 'p1']],
+    ['unknown', ['p1', 'p9']],
+  ])('rejects a manual selection with %s prizes', (_, prizeIds) => {
+    expect(checkDraw(['1', '2'], prizes, 'A', 2, prizeIds)?.reason).toBe(
+      'invalid-prize-selection'
+    );
+  });
+});
+
+describe('runDraw', () => {
+  it.each<[DrawFailureReason, Partial<DrawInput>]>([
+    ['invalid-group-size', { groupSize: 0 }],
+    ['insufficient-tickets', { pool: ['1', '1'] }],
+    ['insufficient-prizes', { prizes: [prize('p1')] }],
+    ['invalid-prize-selection', { prizeOrder: 'manual', prizeIds: ['p1', 'p1'] }],
+  ])('fails with %s', (reason, input) => {
+    expect(failureOf(input)).toBe(reason);
+  });
+
+  it('treats a manual order without a selection as invalid', () => {
+    expect(failureOf({ prizeOrder: 'manual' })).toBe('invalid-prize-selection');
+  });
+
+  it('never draws a duplicated ticket twice', () => {
+    const pool = ['1', '1', '2', '2', '3'];
+    const { selected, remainingPool } = draw({ pool, groupSize: 3 });
+
+    expect(selected).toEqual(['1', '2', '3']);
+    expect(remainingPool).toEqual([]);
+    expect(uniquePool(pool)).toEqual(['1', '2', '3']);
+  });
+
+  it('draws a custom category only from its own prizes', () => {
+    const prizes = [prize('a1'), prize('g1', 'Gold'), prize('g2', 'Gold')];
+    const { results } = draw({ prizes, category: 'Gold' });
+
+    expect(results.map(r => r.category)).toEqual(['Gold', 'Gold']);
+    expect(results.map(r => r.prize.id)).toEqual(['g1', 'g2']);
+    expect(results.map(r => r.prize.assignedTo)).toEqual(['1', '2']);
+  });
+
+  it('hands out prizes in the requested order', () => {
+    const prizes = [prize('p1', 'A', 3), prize('p2', 'A', 1), prize('p3', 'A', 2)];
+    const { results } = draw({ prizes, groupSize: 3, prizeOrder: 'ascending' });
+    expect(results.map(r => r.prize.id)).toEqual(['p1', 'p3', 'p2']);
+
+    const manual = draw({ prizes, prizeOrder: 'manual', prizeIds: ['p3', 'p1'] });
+    expect(manual.results.map(r => r.prize.id)).toEqual(['p3', 'p1']);
+  });
+
+  it('returns fewer winners when the eligible pool runs out', () => {
+    const owner: TicketOwner = { id: 'o1', name: 'Ann', ticketNumbers: ['1', '2', '3'] };
+    const { results, skipped } = draw({
+      pool: ['1', '2', '3'],
+      eligibility: {
+        rules: { ...DEFAULT_ELIGIBILITY_RULES, maxWinsPerOwner: 1 },
+        ownerOf: t => (owner.ticketNumbers.includes(t) ? owner : undefined),
+        priorResults: [],
+      },
+    });
+
+    expect(results.map(r => r.ticketNumber)).toEqual(['1']);
+    expect(skipped.map(s => s.ticketNumber)).toEqual(['2', '3']);
+  });
+
+  describe('remainingPool', () => {
+    it('leaves out the winners only', () => {
+      const { remainingPool } = draw({});
+      expect(remainingPool).toEqual(['3', '4', '5']);
+    });
+
+    it('keeps alternates and skipped tickets for later draws', () => {
+      const owner: TicketOwner = { id: 'o1', name: 'Ann', ticketNumbers: ['2'] };
+      const { results, skipped, remainingPool } = draw({
+        alternatesPerPrize: 1,
+        eligibility: {
+          rules: { ...DEFAULT_ELIGIBILITY_RULES, maxWinsPerOwner: 0 },
+          ownerOf: t => (t === '2' ? owner : undefined),
+          priorResults: [],
+        },
+      });
+
+      expect(results.map(r => r.ticketNumber)).toEqual(['1', '3']);
+      expect(results.map(r => r.alternates?.[0].ticketNumber)).toEqual(['4', '5']);
+      expect(skipped.map(s => s.ticketNumber)).toEqual(['2']);
+      expect(remainingPool).toEqual(['2', '4', '5']);
+    });
+
+    it("leaves out a winning owner's other tickets when the rule is on", () => {
+      const owner: TicketOwner = { id: 'o1', name: 'Ann', ticketNumbers: ['1', '4'] };
+      const { results, remainingPool } = draw({
+        eligibility: {
+          rules: { ...DEFAULT_ELIGIBILITY_RULES, removeOwnerTicketsOnWin: true },
+          ownerOf: t => (owner.ticketNumbers.includes(t) ? owner : undefined),
+          priorResults: [],
+        },
+      });
+
+      expect(results[0].removedTickets).toEqual(['4']);
+      expect(remainingPool).toEqual(['3', '5']);
+    });
+
+    it('only removes owner tickets that are in the pool', () => {
+      const owner: TicketOwner = { id: 'o1', name: 'Ann', ticketNumbers: ['1', '4', '9'] };
+      const { results } = draw({
+        eligibility: {
+          rules: { ...DEFAULT_ELIGIBILITY_RULES, removeOwnerTicketsOnWin: true },
+          ownerOf: t => (owner.ticketNumbers.includes(t) ? owner : undefined),
+          priorResults: [],
+        },
+      });
+
+      expect(results[0].removedTickets).toEqual(['4']);
+    });
+  });
+});
@@ -0,0 +1,557 @@
+import {
+  Alternate,
+  Category,
+  DrawResult,
+  EligibilityRules,
+  EliminationGame,
+  Prize,
+  PrizeOrder,
+  SkippedTicket,
+  TicketOwner,
+} from '@/types/raffle';
+
+/**
+ * Pure draw engine: no store, no timers, no DOM. Randomness comes in through
+ * `pickIndex`, so the same engine serves secure, provably fair and simulated
+ * draws and can be replayed deterministically.
+ */
+
+/** Returns a uniform index in [0, n). */
+export type IndexPicker = (n: number) => number;
+
+/** Number of entries a ticket holds; a positive integer, 1 by default. */
+export type WeightOf = (ticket: string) => number;
+
+export const unitWeight: WeightOf = () => 1;
+
+/** Per-ticket weights win over the owner's weight; everything else counts once. */
+export function createWeightOf(
+  ticketWeights: Record<string, number>,
+  owners: TicketOwner[]
+): WeightOf {
+  const ownerWeights = new Map<string, number>();
+  for (const owner of owners) {
+    if (owner.weight && owner.weight !== 1) {
+      owner.ticketNumbers.forEach(t => ownerWeights.set(t, owner.weight));
+    }
+  }
+  return ticket => ticketWeights[ticket] ?? ownerWeights.get(ticket) ?? 1;
+}
+
+export type DrawFailureReason =
+  | 'invalid-group-size'
+  | 'insufficient-tickets'
+  | 'insufficient-prizes'
+  | 'invalid-prize-selection';
+
+export class DrawEngineError extends Error {
+  reason: DrawFailureReason;
+
+  constructor(reason: DrawFailureReason, message: string) {
+    super(message);
+    this.name = 'DrawEngineError';
+    this.reason = reason;
+  }
+}
+
+export interface DrawInput {
+  pool: string[];
+  prizes: Prize[];
+  category: Category;
+  groupSize: number;
+  pickIndex: IndexPicker;
+  weightOf?: WeightOf;
+  eligibility?: EligibilityContext;
+  alternatesPerPrize?: number;
+  prizeOrder?: PrizeOrder;
+  prizeIds?: string[];
+  timestamp?: Date;
+  createId?: () => string;
+}
+
+export interface EligibilityContext {
+  rules: EligibilityRules;
+  ownerOf: (ticket: string) => TicketOwner | undefined;
+  /** Results of earlier draws in the same event. */
+  priorResults: DrawResult[];
+}
+
+export interface DrawOutcome {
+  results: DrawResult[];
+  selected: string[];
+  skipped: SkippedTicket[];
+  remainingPool: string[];
+}
+
+export const DEFAULT_ELIGIBILITY_RULES: EligibilityRules = {
+  maxWinsPerOwner: null,
+  maxWinsPerOwnerPerCategory: null,
+  removeOwnerTicketsOnWin: false,
+};
+
+export const availablePrizesFor = (prizes: Prize[], category: Category) =>
+  prizes.filter(p => p.category === category && !p.isAssigned);
+
+/** Prizes an unfinished elimination game still has to hand out. */
+export const reservedPrizeIds = (game: EliminationGame | null) =>
+  new Set<string>(
+    game && !game.finished ? [game.grandPrizeId, ...game.consolation.map(c => c.prizeId)] : []
+  );
+
+/** Prizes the other draw modes may hand out. */
+export const drawablePrizes = (prizes: Prize[], game: EliminationGame | null) => {
+  const reserved = reservedPrizeIds(game);
+  return reserved.size > 0 ? prizes.filter(p => !reserved.has(p.id)) : prizes;
+};
+
+/** Results that still stand, i.e. were not voided. */
+export const standingResults = (results: DrawResult[]) => results.filter(r => !r.voided);
+
+/** Removes duplicate tickets while keeping first-seen order. */
+export const uniquePool = (pool: string[]) => [...new Set(pool)];
+
+/** Distinct tickets in `pool`, counting no further than `limit`. */
+function countUnique(pool: string[], limit: number): number {
+  if (pool.length < limit) return uniquePool(pool).length;
+  const seen = new Set<string>();
+  for (const ticket of pool) {
+    seen.add(ticket);
+    if (seen.size >= limit) break;
+  }
+  return seen.size;
+}
+
+export const isValidWeight = (weight: number) => Number.isInteger(weight) && weight >= 1;
+
+export function checkDraw(
+  pool: string[],
+  prizes: Prize[],
+  category: Category,
+  groupSize: number,
+  prizeIds?: string[]
+): DrawEngineError | null {
+  if (!Number.isInteger(groupSize) || groupSize < 1) {
+    return new DrawEngineError('invalid-group-size', `Invalid group size ${groupSize}`);
+  }
+  const ticketCount = countUnique(pool, groupSize);
+  if (ticketCount < groupSize) {
+    return new DrawEngineError(
+      'insufficient-tickets',
+      `Need ${groupSize - ticketCount} more tickets`
+    );
+  }
+  const prizeCount = availablePrizesFor(prizes, category).length;
+  if (prizeCount < groupSize) {
+    return new DrawEngineError(
+      'insufficient-prizes',
+      `Need ${groupSize - prizeCount} more prizes in Category ${category}`
+    );
+  }
+  if (prizeIds) {
+    const available = new Set(availablePrizesFor(prizes, category).map(p => p.id));
+    if (
+      new Set(prizeIds).size !== prizeIds.length ||
+      prizeIds.length < groupSize ||
+      prizeIds.some(id => !available.has(id))
+    ) {
+      return new DrawEngineError(
+        'invalid-prize-selection',
+        `Pick ${groupSize} different available prizes in Category ${category}`
+      );
+    }
+  }
+  return null;
+}
+
+export const PRIZE_ORDER_LABELS: Record<PrizeOrder, string> = {
+  fixed: 'Order added',
+  random: 'Random shuffle',
+  ascending: 'Smallest first, grand prize last',
+  manual: 'Pick prizes manually',
+};
+
+/** Fisher–Yates shuffle driven by `pickIndex`. */
+export function shuffle<T>(items: T[], pickIndex: IndexPicker): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = pickIndex(i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/** Available prizes of `category` in the order they are handed to the winners. */
+export function orderPrizes(
+  prizes: Prize[],
+  category: Category,
+  order: PrizeOrder,
+  pickIndex: IndexPicker,
+  prizeIds: string[] = []
+): Prize[] {
+  const available = availablePrizesFor(prizes, category);
+  switch (order) {
+    case 'random':
+      return shuffle(available, pickIndex);
+    case 'ascending':
+      // Stable sort keeps insertion order between prizes of the same rank
+      return [...available].sort(
+        (a, b) => (b.rank ?? Infinity) - (a.rank ?? Infinity) || 0
+      );
+    case 'manual':
+      return prizeIds.map(id => available.find(p => p.id === id));
+    default:
+      return available;
+  }
+}
+
+/**
+ * A shrinking pool to draw from without replacement. Each pick is
+ * proportional to the remaining tickets' weights: an entry index in
+ * [0, total weight) is drawn and mapped to the ticket whose cumulative weight
+ * range contains it. With unit weights this is exactly
+ * `pool[pickIndex(pool.length)]` over the remaining tickets in pool order.
+ *
+ * Weights live in a Fenwick tree, so building the pool is O(n) and every pick
+ * or removal is O(log n) instead of a scan and a splice of the whole pool.
+ */
+export function createPickablePool(pool: string[], weightOf: WeightOf = unitWeight) {
+  const n = pool.length;
+  const weights = new Float64Array(n);
+  const tree = new Float64Array(n + 1);
+  const taken = new Uint8Array(n);
+  let size = n;
+  let total = 0;
+
+  for (let i = 0; i < n; i++) {
+    weights[i] = weightOf(pool[i]);
+    total += weights[i];
+    tree[i + 1] += weights[i];
+    const parent = i + 1 + ((i + 1) & -(i + 1));
+    if (parent <= n) tree[parent] += tree[i + 1];
+  }
+
+  let topStep = 1;
+  while (topStep * 2 <= n) topStep *= 2;
+
+  // Position of the ticket whose cumulative weight range contains `entry`
+  const find = (entry: number) => {
+    let position = 0;
+    for (let step = topStep; step > 0; step >>= 1) {
+      const next = position + step;
+      if (next <= n && tree[next] <= entry) {
+        position = next;
+        entry -= tree[next];
+      }
+    }
+    return position;
+  };
+
+  const removeAt = (index: number) => {
+    if (taken[index]) return;
+    taken[index] = 1;
+    size--;
+    const weight = weights[index];
+    total -= weight;
+    for (let i = index + 1; i <= n; i += i & -i) tree[i] -= weight;
+  };
+
+  // Built on the first removal by ticket number
+  let positions: Map<string, number[]> | null = null;
+
+  return {
+    get size() {
+      return size;
+    },
+    pick(pickIndex: IndexPicker): string {
+      const index = find(pickIndex(total));
+      removeAt(index);
+      return pool[index];
+    },
+    remove(tickets: Set<string>) {
+      if (!positions) {
+        positions = new Map();
+        pool.forEach((ticket, i) => {
+          const list = positions!.get(ticket);
+          if (list) list.push(i);
+          else positions!.set(ticket, [i]);
+        });
+      }
+      tickets.forEach(ticket => positions!.get(ticket)?.forEach(removeAt));
+    },
+  };
+}
+
+/**
+ * Up to `count` distinct random tickets for display, e.g. while a draw is
+ * animating. Only touches the sampled positions, so it stays cheap on huge
+ * pools. Not for picking winners.
+ */
+export function sampleTickets(
+  pool: string[],
+  count: number,
+  random: () => number = Math.random
+): string[] {
+  if (count >= pool.length) {
+    return shuffle(pool, n => Math.floor(random() * n));
+  }
+  const positions = new Set<number>();
+  while (positions.size < count) {
+    positions.add(Math.floor(random() * pool.length));
+  }
+  return [...positions].map(i => pool[i]);
+}
+
+/**
+ * `pool` without the entries at the ascending `positions`. Compares indices
+ * only, so it is much cheaper than filtering a huge pool through a Set.
+ */
+export function removePositions(pool: string[], positions: number[]): string[] {
+  const remaining = new Array<string>(pool.length - positions.length);
+  let next = 0;
+  let skip = 0;
+  for (let i = 0; i < pool.length; i++) {
+    if (i === positions[skip]) skip++;
+    else remaining[next++] = pool[i];
+  }
+  return remaining;
+}
+
+/** Picks `count` distinct tickets without replacement. */
+export function selectTickets(
+  pool: string[],
+  count: number,
+  pickIndex: IndexPicker,
+  weightOf: WeightOf = unitWeight
+): string[] {
+  const pickable = createPickablePool(pool, weightOf);
+  const selected: string[] = [];
+
+  while (selected.length < count && pickable.size > 0) {
+    selected.push(pickable.pick(pickIndex));
+  }
+
+  return selected;
+}
+
+/**
+ * Knocks up to `count` tickets out of `survivors` (uniformly, weights do not
+ * apply), always leaving at least one. Eliminated tickets are returned in
+ * elimination order.
+ */
+export function eliminateTickets(
+  survivors: string[],
+  count: number,
+  pickIndex: IndexPicker
+): { eliminated: string[]; survivors: string[] } {
+  const eliminated = selectTickets(survivors, Math.min(count, survivors.length - 1), pickIndex);
+  const out = new Set(eliminated);
+  return { eliminated, survivors: survivors.filter(t => !out.has(t)) };
+}
+
+/** Chance of each ticket winning the next single pick. */
+export function ticketOdds(pool: string[], weightOf: WeightOf = unitWeight): Map<string, number> {
+  const tickets = uniquePool(pool);
+  const total = tickets.reduce((sum, t) => sum + weightOf(t), 0);
+  return new Map(tickets.map(t => [t, total > 0 ? weightOf(t) / total : 0]));
+}
+
+/** Why an owner may not win (another) prize, or null when eligible. */
+function ineligibleReason(
+  owner: TicketOwner,
+  category: Category,
+  wins: Pick<DrawResult, 'ownerId' | 'category'>[],
+  rules: EligibilityRules
+): string | null {
+  const ownerWins = wins.filter(r => r.ownerId === owner.id);
+  if (rules.maxWinsPerOwner !== null && ownerWins.length >= rules.maxWinsPerOwner) {
+    return `${owner.name} already has ${ownerWins.length} win(s) this event (max ${rules.maxWinsPerOwner})`;
+  }
+  const categoryWins = ownerWins.filter(r => r.category === category);
+  if (
+    rules.maxWinsPerOwnerPerCategory !== null &&
+    categoryWins.length >= rules.maxWinsPerOwnerPerCategory
+  ) {
+    return `${owner.name} already has ${categoryWins.length} win(s) in Category ${category} (max ${rules.maxWinsPerOwnerPerCategory})`;
+  }
+  return null;
+}
+
+/**
+ * Draws up to `groupSize` winners, then `alternatesPerPrize` ranked alternates
+ * for each winner in result order, and only then orders the prizes (a random
+ * order takes its picks last). Tickets whose owner is over an eligibility
+ * limit are skipped (and stay in the pool for later draws); fewer winners than
+ * `groupSize` are returned when the eligible pool runs out. Alternates stay in
+ * the pool too.
+ */
+export function runDraw({
+  pool,
+  prizes,
+  category,
+  groupSize,
+  pickIndex,
+  weightOf,
+  eligibility,
+  alternatesPerPrize = 0,
+  prizeOrder = 'fixed',
+  prizeIds,
+  timestamp = new Date(),
+  createId = () => crypto.randomUUID(),
+}: DrawInput): DrawOutcome {
+  const failure = checkDraw(
+    pool,
+    prizes,
+    category,
+    groupSize,
+    prizeOrder === 'manual' ? prizeIds ?? [] : undefined
+  );
+  if (failure) throw failure;
+
+  const inPool = new Set(pool);
+  const tickets = [...inPool];
+  const pickable = createPickablePool(tickets, weightOf);
+  const rules = eligibility?.rules ?? DEFAULT_ELIGIBILITY_RULES;
+  const wins: Pick<DrawResult, 'ownerId' | 'category'>[] = [...(eligibility?.priorResults ?? [])];
+
+  const results: Omit<DrawResult, 'prize'>[] = [];
+  const skipped: SkippedTicket[] = [];
+  const removed = new Set<string>();
+
+  // Next eligible ticket and its owner, or null once the pool runs out
+  const pickEligible = () => {
+    while (pickable.size > 0) {
+      const ticket = pickable.pick(pickIndex);
+      const owner = eligibility?.ownerOf(ticket);
+      const reason = owner && ineligibleReason(owner, category, wins, rules);
+      if (!reason) return { ticket, owner };
+      skipped.push({ ticketNumber: ticket, ownerName: owner.name, reason });
+    }
+    return null;
+  };
+
+  while (results.length < groupSize) {
+    const pick = pickEligible();
+    if (!pick) break;
+    const { ticket, owner } = pick;
+
+    const result: Omit<DrawResult, 'prize'> = {
+      id: createId(),
+      ticketNumber: ticket,
+      category,
+      timestamp,
+      ownerId: owner?.id,
+      ownerName: owner?.name,
+    };
+
+    if (owner && rules.removeOwnerTicketsOnWin) {
+      // Owner tickets outside the pool, e.g. void or unsold ones, stay where they are
+      const others = owner.ticketNumbers.filter(
+        t => t !== ticket && !removed.has(t) && inPool.has(t)
+      );
+      if (others.length > 0) {
+        others.forEach(t => removed.add(t));
+        pickable.remove(new Set(others));
+        result.removedTickets = others;
+      }
+    }
+
+    results.push(result);
+    wins.push(result);
+  }
+
+  for (const result of results) {
+    const alternates: Alternate[] = [];
+    while (alternates.length < alternatesPerPrize) {
+      const pick = pickEligible();
+      if (!pick) break;
+      alternates.push({
+        rank: alternates.length + 1,
+        ticketNumber: pick.ticket,
+        ownerId: pick.owner?.id,
+        ownerName: pick.owner?.name,
+      });
+    }
+    if (alternates.length > 0) result.alternates = alternates;
+  }
+
+  const orderedPrizes = orderPrizes(prizes, category, prizeOrder, pickIndex, prizeIds);
+  const awarded: DrawResult[] = results.map((result, i) => ({
+    ...result,
+    prize: { ...orderedPrizes[i], isAssigned: true, assignedTo: result.ticketNumber },
+  }));
+
+  const selected = results.map(r => r.ticketNumber);
+  const won = new Set(selected);
+
+  return {
+    results: awarded,
+    selected,
+    skipped,
+    remainingPool: tickets.filter(t => !won.has(t) && !removed.has(t)),
+  };
+}
+
+export interface PromotionInput {
+  result: DrawResult;
+  pool: string[];
+  eligibility?: EligibilityContext;
+  timestamp?: Date;
+  createId?: () => string;
+}
+
+/**
+ * Hands the prize of `result` to its first alternate that is still in the pool
+ * and eligible. Alternates ranked below the promoted one carry over to the new
+ * result; those passed over are dropped. Returns null when none qualifies.
+ */
+export function promoteAlternate({
+  result,
+  pool,
+  eligibility,
+  timestamp = new Date(),
+  createId = () => crypto.randomUUID(),
+}: PromotionInput): DrawResult | null {
+  const inPool = new Set(pool);
+  const rules = eligibility?.rules ?? DEFAULT_ELIGIBILITY_RULES;
+  const wins = eligibility?.priorResults ?? [];
+  const alternates = result.alternates ?? [];
+
+  const index = alternates.findIndex(alt => {
+    if (!inPool.has(alt.ticketNumber)) return false;
+    const owner = eligibility?.ownerOf(alt.ticketNumber);
+    return !owner || !ineligibleReason(owner, result.category, wins, rules);
+  });
+  if (index === -1) return null;
+
+  const { rank, ticketNumber } = alternates[index];
+  const owner = eligibility?.ownerOf(ticketNumber);
+  const promoted: DrawResult = {
+    id: createId(),
+    ticketNumber,
+    prize: { ...result.prize, isAssigned: true, assignedTo: ticketNumber },
+    category: result.category,
+    timestamp,
+    ownerId: owner?.id,
+    ownerName: owner?.name,
+    replacesId: result.id,
+    promotedAlternate: rank,
+  };
+
+  const remaining = alternates.slice(index + 1);
+  if (remaining.length > 0) promoted.alternates = remaining;
+
+  if (owner && rules.removeOwnerTicketsOnWin) {
+    const others = owner.ticketNumbers.filter(t => t !== ticketNumber && inPool.has(t));
+    if (others.length > 0) promoted.removedTickets = others;
+  }
+
+  return promoted;
+}
+
+/** Marks the prizes won in `results` as assigned. */
+export function assignPrizes(prizes: Prize[], results: DrawResult[]): Prize[] {
+  const winners = new Map(results.map(r => [r.prize.id, r.ticketNumber]));
+  return prizes.map(p =>
+    winners.has(p.id) ? { ...p, isAssigned: true, assignedTo: winners.get(p.id) } : p
+  );
+}
@@ -0,0 +1,105 @@
+import {
+  Category,
+  DrawResult,
+  EligibilityRules,
+  FairnessProof,
+  Prize,
+  PrizeOrder,
+  TicketOwner,
+} from '@/types/raffle';
+import { DrawOutcome, createWeightOf, runDraw } from '@/lib/drawEngine';
+import {
+  canonicalPool,
+  createSeededRandom,
+  fairIndexPicker,
+  hashTicketPool,
+} from '@/lib/provablyFair';
+import { cryptoRandom, randomIndex } from '@/lib/random';
+
+/**
+ * Everything a draw needs as plain, structured-cloneable data, so it can be
+ * posted to a Web Worker. The weight and owner lookups the engine takes as
+ * functions are rebuilt on the receiving side.
+ */
+export interface DrawRequest {
+  pool: string[];
+  prizes: Prize[];
+  category: Category;
+  groupSize: number;
+  ticketWeights: Record<string, number>;
+  owners: TicketOwner[];
+  rules: EligibilityRules;
+  /** Standing results of earlier draws, owners filled in. */
+  priorResults: DrawResult[];
+  alternatesPerPrize: number;
+  prizeOrder: PrizeOrder;
+  prizeIds?: string[];
+  /**
+   * Draws reproducibly from the committed seed when set, after checking the
+   * pool still has the committed hash (hashing a huge pool takes a while).
+   */
+  fairness?: Pick<FairnessProof, 'seed' | 'algorithm' | 'poolHash'>;
+}
+
+/**
+ * A draw outcome without the remaining pool, which the caller already holds.
+ * Instead it lists where the tickets leaving the pool (winners and tickets
+ * removed with them) sit in the request's pool, in ascending order.
+ */
+export type DrawSummary = Omit<DrawOutcome, 'remainingPool'> & { leavingPositions: number[] };
+
+/**
+ * The request as posted to the worker: a pool of a million tickets clones
+ * several times faster as one newline-separated string than as an array.
+ */
+export type DrawMessage = Omit<DrawRequest, 'pool'> & { poolText: string };
+
+export type DrawResponse = { outcome: DrawSummary } | { error: string };
+
+export const toDrawMessage = ({ pool, ...request }: DrawRequest): DrawMessage => ({
+  ...request,
+  poolText: pool.join('\n'),
+});
+
+export const fromDrawMessage = ({ poolText, ...request }: DrawMessage): DrawRequest => ({
+  ...request,
+  pool: poolText ? poolText.split('\n') : [],
+});
+
+export async function performDraw(request: DrawRequest): Promise<DrawSummary> {
+  const { fairness, owners, rules, priorResults } = request;
+  const ownerByTicket = new Map<string, TicketOwner>();
+  owners.forEach(o => o.ticketNumbers.forEach(t => ownerByTicket.set(t, o)));
+
+  const weightOf = createWeightOf(request.ticketWeights, owners);
+  const pool = fairness ? canonicalPool(request.pool) : request.pool;
+  // A published commitment only holds for the exact pool it was made on
+  if (fairness && (await hashTicketPool(pool, weightOf)) !== fairness.poolHash) {
+    throw new Error(
+      'The ticket pool or its weights changed after the commitment was published. Publish a new commitment.'
+    );
+  }
+
+  const { results, selected, skipped } = runDraw({
+    pool,
+    prizes: request.prizes,
+    category: request.category,
+    groupSize: request.groupSize,
+    weightOf,
+    eligibility: { rules, ownerOf: ticket => ownerByTicket.get(ticket), priorResults },
+    alternatesPerPrize: request.alternatesPerPrize,
+    prizeOrder: request.prizeOrder,
+    prizeIds: request.prizeIds,
+    pickIndex: fairness
+      ? // Reproducible draw from the committed seed
+        fairIndexPicker(await createSeededRandom(fairness.seed), fairness.algorithm)
+      : // Secure random draw
+        n => randomIndex(cryptoRandom, n),
+  });
+  const leaving = new Set([...selected, ...results.flatMap(r => r.removedTickets ?? [])]);
+  const leavingPositions: number[] = [];
+  request.pool.forEach((ticket, i) => {
+    if (leaving.has(ticket)) leavingPositions.push(i);
+  });
+  return { results, selected, skipped, leavingPositions };
+}
@@ -0,0 +1,33 @@
+import {
+  DrawRequest,
+  DrawResponse,
+  DrawSummary,
+  performDraw,
+  toDrawMessage,
+} from '@/lib/drawRequest';
+
+/**
+ * Runs a draw in a Web Worker so selecting from a huge pool never blocks the
+ * page. Falls back to the main thread where workers are unavailable or the
+ * worker fails to load; errors raised by the draw itself are rethrown.
+ */
+export function drawInWorker(request: DrawRequest): Promise<DrawSummary> {
+  if (typeof Worker === 'undefined') return performDraw(request);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/draw.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    worker.onmessage = (event: MessageEvent<DrawResponse>) => {
+      worker.terminate();
+      if ('error' in event.data) reject(new Error(event.data.error));
+      else resolve(event.data.outcome);
+    };
+    worker.onerror = event => {
+      event.preventDefault();
+      worker.terminate();
+      performDraw(request).then(resolve, reject);
+    };
+    worker.postMessage(toDrawMessage(request));
+  });
+}
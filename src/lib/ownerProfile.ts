@@ -0,0 +1,71 @@
+import Papa from 'papaparse';
+import { OwnerProfile, TicketOwner } from '@/types/raffle';
+import { isValidWeight } from '@/lib/drawEngine';
+
+/** Owner contact details: editing, display and the owners CSV. */
+
+export const OWNER_PROFILE_FIELDS: { key: keyof OwnerProfile; label: string }[] = [
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'organisation', label: 'Organisation' },
+  { key: 'address', label: 'Address' },
+  { key: 'notes', label: 'Notes' },
+];
+
+/** `profile` with values trimmed and blank fields left out. */
+export function cleanProfile(profile: OwnerProfile): OwnerProfile {
+  const cleaned: OwnerProfile = {};
+  for (const { key } of OWNER_PROFILE_FIELDS) {
+    const value = profile[key]?.trim();
+    if (value) cleaned[key] = value;
+  }
+  return cleaned;
+}
+
+export const profileOf = (owner: TicketOwner): OwnerProfile =>
+  cleanProfile(
+    Object.fromEntries(OWNER_PROFILE_FIELDS.map(({ key }) => [key, owner[key]])) as OwnerProfile
+  );
+
+/** How to reach the owner, e.g. "555-0100 · ann@example.org"; empty when unknown. */
+export const ownerContact = (owner: TicketOwner | undefined) =>
+  owner ? [owner.phone, owner.email].filter(Boolean).join(' · ') : '';
+
+// ------------------- CSV -------------------
+const CSV_COLUMNS = ['name', 'tickets', 'weight', ...OWNER_PROFILE_FIELDS.map(f => f.key)];
+
+export const OWNERS_TEMPLATE_CSV = Papa.unparse({
+  fields: CSV_COLUMNS,
+  data: [
+    ['John Doe', '1,2,3', 1, 'john@example.org', '555-0100', 'Rotary Club', '1 High St', ''],
+    ['Jane Smith', '10,11', 3, '', '555-0101', '', '', 'Collects in person'],
+  ],
+});
+
+export const ownersCsv = (owners: TicketOwner[]) =>
+  Papa.unparse({
+    fields: CSV_COLUMNS,
+    data: owners.map(o => [
+      o.name,
+      o.ticketNumbers.join(','),
+      o.weight ?? 1,
+      ...OWNER_PROFILE_FIELDS.map(({ key }) => o[key] ?? ''),
+    ]),
+  });
+
+/** Owner described by a row of the owners CSV; null without a name or tickets. */
+export function ownerFromCsvRow(row: Record<string, string | undefined>) {
+  const name = row.name?.trim();
+  const ticketNumbers = row.tickets
+    ?.split(',')
+    .map(t => t.trim())
+    .filter(Boolean);
+  if (!name || !ticketNumbers?.length) return null;
+  const weight = Number(row.weight?.trim() || '1');
+  return {
+    name,
+    ticketNumbers,
+    weight: isValidWeight(weight) && weight !== 1 ? weight : undefined,
+    ...cleanProfile(row),
+  };
+}
@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DrawHistoryEntry,
+  DrawRecord,
+  EligibilityRules,
+  Prize,
+  PrizeOrder,
+  TicketOwner,
+} from '@/types/raffle';
+import { DEFAULT_ELIGIBILITY_RULES, createWeightOf } from '@/lib/drawEngine';
+import { DrawRequest, performDraw } from '@/lib/drawRequest';
+import {
+  DRAW_RECORD_VERSION,
+  FAIR_DRAW_ALGORITHM,
+  hashSeed,
+  hashTicketPool,
+  parseDrawRecordFile,
+  toDrawRecord,
+  verifyDrawRecord,
+} from '@/lib/provablyFair';
+
+const SEED = '3f1c9a7e5b2d4c6e8a0b1c2d3e4f5a6b7c8d9e0f1a2b3c4d5e6f7a8b9c0d1e2f';
+
+const POOL = Array.from({ length: 40 }, (_, i) => String(i + 1).padStart(3, '0'));
+
+const prizes: Prize[] = [
+  { id: 'p1', name: 'Bicycle', category: 'A', isAssigned: false, rank: 2 },
+  { id: 'p2', name: 'Television', category: 'A', isAssigned: false, rank: 1 },
+  { id: 'p3', name: 'Hamper', category: 'A', isAssigned: false },
+  { id: 'p4', name: 'Voucher', category: 'A', isAssigned: false, rank: 3 },
+];
+
+interface FairDraw {
+  groupSize?: number;
+  prizeOrder?: PrizeOrder;
+  ticketWeights?: Record<string, number>;
+  owners?: TicketOwner[];
+  rules?: Partial<EligibilityRules>;
+  alternatesPerPrize?: number;
+  prizeIds?: string[];
+}
+
+/** Commits to the pool, draws as the worker does and keeps the history entry. */
+const fairDraw = async ({
+  groupSize = 3,
+  prizeOrder = 'fixed',
+  ticketWeights = {},
+  owners = [],
+  rules = {},
+  alternatesPerPrize = 0,
+  prizeIds,
+}: FairDraw = {}) => {
+  const weightOf = createWeightOf(ticketWeights, owners);
+  const poolHash = await hashTicketPool(POOL, weightOf);
+  const request: DrawRequest = {
+    pool: POOL,
+    prizes,
+    category: 'A',
+    groupSize,
+    ticketWeights,
+    owners,
+    rules: { ...DEFAULT_ELIGIBILITY_RULES, ...rules },
+    priorResults: [],
+    alternatesPerPrize,
+    prizeOrder,
+    prizeIds,
+    fairness: { seed: SEED, algorithm: FAIR_DRAW_ALGORITHM, poolHash },
+  };
+  const { results, skipped } = await performDraw(request);
+  const entry: DrawHistoryEntry = {
+    id: 'draw-1',
+    results,
+    category: 'A',
+    groupSize,
+    timestamp: new Date(2024, 0, 1),
+    fairness: {
+      algorithm: FAIR_DRAW_ALGORITHM,
+      commitment: await hashSeed(SEED),
+      poolHash,
+      poolSize: POOL.length,
+      seed: SEED,
+    },
+    availablePrizes: prizes.map(({ name, rank }) => ({ name, rank })),
+    skipped,
+    alternatesPerPrize,
+    prizeOrder,
+  };
+  return { entry, record: toDrawRecord(entry, 1), request, weightOf };
+};
+
+const expectVerified = async (record: DrawRecord, weightOf = createWeightOf({}, [])) => {
+  const verification = await verifyDrawRecord(record, POOL, weightOf);
+  expect(verification.algorithmSupported).toBe(true);
+  expect(verification.commitmentValid).toBe(true);
+  expect(verification.poolHashValid).toBe(true);
+  expect(verification.results.every(r => r.matches)).toBe(true);
+  return verification;
+};
+
+describe('commit–reveal round trip', () => {
+  it.each<PrizeOrder>(['fixed', 'ascending', 'random'])(
+    'verifies the winners and prizes of a %s prize order',
+    async prizeOrder => {
+      const { entry, record } = await fairDraw({ prizeOrder });
+      const verification = await expectVerified(record);
+      expect(verification.results.map(r => r.expectedTicket)).toEqual(
+        entry.results.map(r => r.ticketNumber)
+      );
+      expect(verification.results.map(r => r.expectedPrize)).toEqual(
+        entry.results.map(r => r.prize.name)
+      );
+    }
+  );
+
+  it('verifies manual picks by ticket alone', async () => {
+    const { record } = await fairDraw({ prizeOrder: 'manual', prizeIds: ['p4', 'p1', 'p3'] });
+    const verification = await expectVerified(record);
+    expect(verification.results.every(r => r.expectedPrize === undefined)).toBe(true);
+  });
+
+  it('verifies a weighted pool against its weighted hash', async () => {
+    const ticketWeights = { '002': 5, '017': 3 };
+    const { record, weightOf } = await fairDraw({ ticketWeights });
+    await expectVerified(record, weightOf);
+
+    // The same tickets without their weights are another pool
+    const unweighted = await verifyDrawRecord(record, POOL);
+    expect(unweighted.poolHashValid).toBe(false);
+  });
+
+  it('lists the picks discarded for eligibility limits', async () => {
+    const owner: TicketOwner = {
+      id: 'o1',
+      name: 'Ada',
+      ticketNumbers: POOL.slice(0, 30),
+    };
+    const { entry, record } = await fairDraw({
+      owners: [owner],
+      rules: { maxWinsPerOwner: 1 },
+    });
+    expect(entry.skipped?.length).toBeGreaterThan(0);
+
+    const verification = await expectVerified(record);
+    expect(verification.discarded).toEqual(record.skipped);
+    expect(verification.discarded.every(s => s.ownerName === 'Ada')).toBe(true);
+  });
+
+  it('takes the tickets removed with a winner out of the pool', async () => {
+    const owner: TicketOwner = { id: 'o1', name: 'Ada', ticketNumbers: POOL.slice(0, 30) };
+    const { record } = await fairDraw({
+      owners: [owner],
+      rules: { removeOwnerTicketsOnWin: true },
+    });
+    expect(record.results.some(r => r.removedTickets?.length)).toBe(true);
+    await expectVerified(record);
+  });
+
+  it('verifies alternates as the picks that follow the winners', async () => {
+    const { record } = await fairDraw({ alternatesPerPrize: 2 });
+    const verification = await expectVerified(record);
+    expect(verification.results).toHaveLength(3 * 3);
+    expect(verification.results.slice(3).every(r => r.expectedPrize === undefined)).toBe(true);
+  });
+
+  it('survives export and import as a draw record file', async () => {
+    const { record } = await fairDraw({ prizeOrder: 'random', alternatesPerPrize: 1 });
+    const file = parseDrawRecordFile(
+      JSON.stringify({ type: 'raffle-draw-record', version: DRAW_RECORD_VERSION, draws: [record] })
+    );
+    await expectVerified(file.draws[0]);
+  });
+});
+
+describe('tampered records', () => {
+  it('flags a replaced winner', async () => {
+    const { record } = await fairDraw();
+    const winners = new Set(record.results.map(r => r.ticketNumber));
+    record.results[1].ticketNumber = POOL.find(t => !winners.has(t))!;
+
+    const verification = await verifyDrawRecord(record, POOL);
+    expect(verification.results.map(r => r.matches)).toEqual([true, false, true]);
+  });
+
+  it('flags swapped prizes', async () => {
+    const { record } = await fairDraw({ prizeOrder: 'ascending' });
+    const [first, second] = record.results;
+    [first.prizeName, second.prizeName] = [second.prizeName, first.prizeName];
+
+    const verification = await verifyDrawRecord(record, POOL);
+    expect(verification.results[0].matches).toBe(false);
+    expect(verification.results[1].matches).toBe(false);
+  });
+
+  it('flags a seed that does not match the commitment', async () => {
+    const { record } = await fairDraw();
+    record.fairness = { ...record.fairness, seed: SEED.replace(/^3/, '4') };
+
+    const verification = await verifyDrawRecord(record, POOL);
+    expect(verification.commitmentValid).toBe(false);
+  });
+
+  it('flags a pool that differs from the committed one', async () => {
+    const { record } = await fairDraw();
+    const verification = await verifyDrawRecord(record, POOL.slice(1));
+    expect(verification.poolHashValid).toBe(false);
+  });
+
+  it('flags a winner passed off as skipped', async () => {
+    const { record } = await fairDraw();
+    record.skipped = [{ ticketNumber: record.results[0].ticketNumber, reason: 'Made up' }];
+
+    const verification = await verifyDrawRecord(record, POOL);
+    expect(verification.results[0].matches).toBe(false);
+    expect(verification.discarded).toHaveLength(1);
+  });
+});
+
+describe('performDraw', () => {
+  it('rejects a pool whose hash changed after the commitment', async () => {
+    const { request } = await fairDraw();
+    await expect(performDraw({ ...request, pool: POOL.slice(1) })).rejects.toThrow(
+      /changed after the commitment/
+    );
+    await expect(performDraw({ ...request, ticketWeights: { '001': 2 } })).rejects.toThrow(
+      /changed after the commitment/
+    );
+  });
+});
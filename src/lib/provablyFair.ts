@@ -0,0 +1,325 @@
+/**
+ * Provably-fair (commit–reveal) draws.
+ *
+ * Before the draw the organiser publishes:
+ *   - commitment = SHA-256(seed)             seed is 32 random bytes, hex encoded
+ *   - poolHash   = SHA-256(canonical pool)   tickets sorted by code unit, joined by "\n";
+ *                                            a ticket with weight w > 1 is written "ticket\tw"
+ *
+ * After the draw the seed is revealed and anyone can recompute the winners:
+ *   1. Check SHA-256(seed) equals the published commitment.
+ *   2. Check the hash of the ticket list equals the published pool hash.
+ *   3. Seed an sfc32 generator with the first 16 bytes of SHA-256("draw:" + seed),
+ *      read as four big-endian uint32 words (a, b, c, d).
+ *   4. For each winner pick an entry in [0, total remaining weight) and take (and
+ *      remove) the ticket of the canonical (sorted) pool whose cumulative weight
+ *      range contains it; with unit weights the entry is simply the index:
+ *        v2: rejection sampling — redraw while next() >= 2^32 - (2^32 % total),
+ *            then entry = next() % total
+ *        v1: entry = next() % total (slightly biased, kept to verify old draws)
+ *      A picked ticket listed as skipped (owner over an eligibility limit) is
+ *      discarded without using up a prize; the record gives each skip's owner
+ *      and reason so it can be checked against the event's eligibility rules.
+ *      After each winner, the tickets listed in its `removedTickets` leave the pool.
+ *   5. Alternates, if any, are the picks that follow the winners, in result order:
+ *      all alternates of the first result by rank, then those of the second, etc.
+ *   6. With the `random` prize order, the available prizes (in the order they
+ *      were added) are then shuffled: for i from n - 1 down to 1, swap prize i
+ *      with prize pick(i + 1). Winners receive the shuffled prizes in draw order.
+ */
+import { DrawHistoryEntry, DrawRecord, DrawRecordFile, SkippedTicket } from '@/types/raffle';
+import { RandomSource, randomIndex } from '@/lib/random';
+import {
+  IndexPicker,
+  WeightOf,
+  createPickablePool,
+  orderPrizes,
+  unitWeight,
+} from '@/lib/drawEngine';
+
+const INDEX_PICKERS: Record<string, (next: RandomSource, n: number) => number> = {
+  'sha256-sfc32-v1': (next, n) => next() % n,
+  'sha256-sfc32-v2': randomIndex,
+};
+
+export const FAIR_DRAW_ALGORITHM = 'sha256-sfc32-v2';
+
+export const isSupportedAlgorithm = (algorithm: string) => algorithm in INDEX_PICKERS;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return toHex(digest);
+}
+
+export function generateSeed(): string {
+  const bytes = new Uint8Array(32);
+  crypto.getRandomValues(bytes);
+  return toHex(bytes.buffer);
+}
+
+export function canonicalPool(tickets: string[]): string[] {
+  return [...tickets].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+export function canonicalPoolLines(tickets: string[], weightOf: WeightOf = unitWeight): string[] {
+  return canonicalPool(tickets).map(t => {
+    const weight = weightOf(t);
+    return weight === 1 ? t : `${t}\t${weight}`;
+  });
+}
+
+export function hashTicketPool(tickets: string[], weightOf: WeightOf = unitWeight): Promise<string> {
+  return sha256Hex(canonicalPoolLines(tickets, weightOf).join('\n'));
+}
+
+export function hashSeed(seed: string): Promise<string> {
+  return sha256Hex(seed);
+}
+
+/** Small fast counter PRNG (Chris Doty-Humphrey's sfc32), yields uint32s. */
+function sfc32(a: number, b: number, c: number, d: number) {
+  return () => {
+    a |= 0; b |= 0; c |= 0; d |= 0;
+    const t = (((a + b) | 0) + d) | 0;
+    d = (d + 1) | 0;
+    a = b ^ (b >>> 9);
+    b = (c + (c << 3)) | 0;
+    c = (c << 21) | (c >>> 11);
+    c = (c + t) | 0;
+    return t >>> 0;
+  };
+}
+
+export async function createSeededRandom(seed: string): Promise<RandomSource> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`draw:${seed}`)
+  );
+  const view = new DataView(digest);
+  return sfc32(view.getUint32(0), view.getUint32(4), view.getUint32(8), view.getUint32(12));
+}
+
+export function fairIndexPicker(next: RandomSource, algorithm = FAIR_DRAW_ALGORITHM): IndexPicker {
+  const pick = INDEX_PICKERS[algorithm];
+  return n => pick(next, n);
+}
+
+export interface FairDrawLog {
+  skipped?: string[];
+  removedTickets?: (winner: string) => string[] | undefined;
+  /** Called with each pick that is discarded because it was skipped. */
+  onDiscard?: (ticket: string) => void;
+}
+
+/** Deterministically picks `count` tickets from the canonical pool (step 4 above). */
+export function selectFairWinners(
+  tickets: string[],
+  count: number,
+  next: RandomSource,
+  algorithm = FAIR_DRAW_ALGORITHM,
+  weightOf: WeightOf = unitWeight,
+  log: FairDrawLog = {}
+): string[] {
+  const pickable = createPickablePool(canonicalPool(tickets), weightOf);
+  const pickIndex = fairIndexPicker(next, algorithm);
+  const skipped = new Set(log.skipped ?? []);
+  const selected: string[] = [];
+
+  while (selected.length < count && pickable.size > 0) {
+    const ticket = pickable.pick(pickIndex);
+    if (skipped.has(ticket)) {
+      log.onDiscard?.(ticket);
+      continue;
+    }
+    selected.push(ticket);
+    const removed = log.removedTickets?.(ticket);
+    if (removed?.length) pickable.remove(new Set(removed));
+  }
+
+  return selected;
+}
+
+// ------------------- DRAW RECORDS -------------------
+// v2: skipped tickets carry their owner and the reason they were skipped
+// v3: the available prizes, so the prize each winner received can be checked
+export const DRAW_RECORD_VERSION = 3;
+
+export function toDrawRecord(entry: DrawHistoryEntry, drawNumber: number): DrawRecord {
+  return {
+    drawNumber,
+    category: entry.category,
+    groupSize: entry.groupSize,
+    timestamp: entry.timestamp.toISOString(),
+    fairness: entry.fairness,
+    prizeOrder: entry.prizeOrder,
+    // Replacements for voided winners are redrawn at random, not from the seed
+    results: entry.results
+      .filter(r => !r.replacesId)
+      .map(r => ({
+        ticketNumber: r.ticketNumber,
+        prizeName: r.prize.name,
+        removedTickets: r.removedTickets,
+        voidReason: r.voided?.reason,
+        alternates: r.alternates?.map(a => a.ticketNumber),
+      })),
+    skipped: entry.skipped?.map(({ ticketNumber, ownerName, reason }) => ({
+      ticketNumber,
+      ownerName,
+      reason,
+    })),
+    prizes: entry.availablePrizes,
+  };
+}
+
+export function parseDrawRecordFile(text: string): DrawRecordFile {
+  let parsed: DrawRecordFile;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The draw record is not valid JSON');
+  }
+
+  if (parsed?.type !== 'raffle-draw-record' || !Array.isArray(parsed.draws)) {
+    throw new Error('This file is not a raffle draw record');
+  }
+  if (parsed.version > DRAW_RECORD_VERSION) {
+    throw new Error(`Unsupported draw record version ${parsed.version}`);
+  }
+
+  for (const draw of parsed.draws) {
+    if (!draw?.fairness?.seed || !Array.isArray(draw.results)) {
+      throw new Error(`Draw #${draw?.drawNumber ?? '?'} has no provably fair proof`);
+    }
+    // v1 records list skipped tickets without a reason
+    draw.skipped = (draw.skipped as (SkippedTicket | string)[] | undefined)?.map(s =>
+      typeof s === 'string' ? { ticketNumber: s, reason: 'No reason recorded' } : s
+    );
+  }
+  return parsed;
+}
+
+/**
+ * Reads a published pool: one ticket per line, optionally followed by a tab
+ * and its weight. Lines without a tab may also list comma-separated tickets.
+ */
+export function parseTicketPool(text: string): { tickets: string[]; weightOf: WeightOf } {
+  const tickets: string[] = [];
+  const weights = new Map<string, number>();
+
+  for (const line of text.split(/\r?\n/)) {
+    if (line.includes('\t')) {
+      const [ticket, weight] = line.split('\t').map(v => v.trim());
+      if (!ticket) continue;
+      tickets.push(ticket);
+      weights.set(ticket, Number(weight) || 1);
+    } else {
+      tickets.push(...line.split(',').map(t => t.trim()).filter(t => t.length > 0));
+    }
+  }
+
+  return { tickets, weightOf: t => weights.get(t) ?? 1 };
+}
+
+export interface DrawVerification {
+  algorithmSupported: boolean;
+  commitmentValid: boolean;
+  poolHashValid: boolean;
+  poolSize: number;
+  results: {
+    ticketNumber: string;
+    prizeName: string;
+    expectedTicket?: string;
+    /** Recomputed prize; missing when the record cannot show it, e.g. manual picks. */
+    expectedPrize?: string;
+    matches: boolean;
+  }[];
+  /**
+   * Picks the recomputation discarded because the record lists them as
+   * skipped, in pick order. The organiser chose to skip them, so each one
+   * should be checked against the published eligibility rules.
+   */
+  discarded: SkippedTicket[];
+}
+
+/** Recomputes a published draw from its revealed seed and the published ticket pool. */
+export async function verifyDrawRecord(
+  draw: DrawRecord,
+  tickets: string[],
+  weightOf: WeightOf = unitWeight
+): Promise<DrawVerification> {
+  const { fairness } = draw;
+  const algorithmSupported = isSupportedAlgorithm(fairness.algorithm);
+  const commitmentValid = (await hashSeed(fairness.seed)) === fairness.commitment;
+  const poolHashValid = (await hashTicketPool(tickets, weightOf)) === fairness.poolHash;
+
+  // Winners first, then every result's alternates (step 5)
+  const published = [
+    ...draw.results,
+    ...draw.results.flatMap(r =>
+      (r.alternates ?? []).map((ticketNumber, i) => ({
+        ticketNumber,
+        prizeName: `${r.prizeName} (alternate #${i + 1})`,
+      }))
+    ),
+  ];
+
+  const skippedByTicket = new Map((draw.skipped ?? []).map(s => [s.ticketNumber, s]));
+  const discarded: SkippedTicket[] = [];
+  const next = await createSeededRandom(fairness.seed);
+  const expected = algorithmSupported
+    ? selectFairWinners(
+        tickets,
+        published.length,
+        next,
+        fairness.algorithm,
+        weightOf,
+        {
+          skipped: [...skippedByTicket.keys()],
+          removedTickets: winner =>
+            draw.results.find(r => r.ticketNumber === winner)?.removedTickets,
+          onDiscard: ticket => discarded.push(skippedByTicket.get(ticket)),
+        }
+      )
+    : [];
+
+  // The prize order takes the picks that follow the winners and alternates (step 6)
+  const expectedPrizes =
+    algorithmSupported && draw.prizes && draw.prizeOrder !== 'manual'
+      ? orderPrizes(
+          draw.prizes.map((p, i) => ({
+            ...p,
+            id: String(i),
+            category: draw.category,
+            isAssigned: false,
+          })),
+          draw.category,
+          draw.prizeOrder ?? 'fixed',
+          fairIndexPicker(next, fairness.algorithm)
+        ).map(p => p.name)
+      : [];
+
+  return {
+    algorithmSupported,
+    commitmentValid,
+    poolHashValid,
+    poolSize: tickets.length,
+    results: published.map((r, i) => {
+      // Alternates follow the winners and hold no prize of their own
+      const expectedPrize = i < draw.results.length ? expectedPrizes[i] : undefined;
+      return {
+        ticketNumber: r.ticketNumber,
+        prizeName: r.prizeName,
+        expectedTicket: expected[i],
+        expectedPrize,
+        matches:
+          algorithmSupported &&
+          expected[i] === r.ticketNumber &&
+          (expectedPrize === undefined || expectedPrize === r.prizeName),
+      };
+    }),
+    discarded,
+  };
+}
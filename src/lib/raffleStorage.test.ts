@@ -0,0 +1,152 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { StorageValue } from 'zustand/middleware';
+import {
+  RAFFLE_STORAGE_KEY,
+  RAFFLE_STORAGE_VERSION,
+  RaffleStorageError,
+  createRaffleStorage,
+  migrateRaffleState,
+} from '@/lib/raffleStorage';
+
+let stored: Map<string, string>;
+
+beforeEach(() => {
+  stored = new Map();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => stored.get(key) ?? null,
+    setItem: (key: string, value: string) => stored.set(key, value),
+    removeItem: (key: string) => stored.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const padded = (start: number, end: number) =>
+  Array.from({ length: end - start + 1 }, (_, i) => `EVT-${String(start + i).padStart(4, '0')}`);
+
+const savedEvent = () => ({
+  id: 'event-1',
+  name: 'Spring Fair',
+  createdAt: new Date('2024-03-01T10:00:00Z'),
+  isArchived: false,
+  data: {
+    tickets: [...padded(1, 2000), 'walk-in'],
+    owners: [{ id: 'o1', name: 'Ada', ticketNumbers: padded(10, 19) }],
+    sellerBooks: [
+      {
+        id: 'b1',
+        seller: 'Bo',
+        createdAt: new Date('2024-03-02T09:00:00Z'),
+        tickets: padded(500, 549),
+        returnedTickets: ['EVT-0549'],
+      },
+    ],
+    sales: [
+      {
+        id: 's1',
+        timestamp: new Date('2024-03-03T12:30:00Z'),
+        buyerName: 'Cy',
+        seller: '',
+        tickets: ['walk-in'],
+        addedTickets: ['walk-in'],
+        paymentMethod: 'cash',
+        amount: 5,
+      },
+    ],
+  },
+});
+
+describe('createRaffleStorage', () => {
+  it('saves ticket lists as runs and loads them back with their dates', () => {
+    const storage = createRaffleStorage();
+    const value = { state: { events: [savedEvent()], activeEventId: 'event-1' }, version: 10 };
+    storage.setItem(RAFFLE_STORAGE_KEY, value);
+
+    const raw = stored.get(RAFFLE_STORAGE_KEY)!;
+    expect(JSON.parse(raw).state.events[0].data.tickets).toEqual({
+      ticketRuns: [[1, 2000, 'EVT-', 4, ''], 'walk-in'],
+    });
+    expect(storage.getItem(RAFFLE_STORAGE_KEY)).toEqual(value);
+  });
+
+  it('skips a save when nothing changed', () => {
+    const writes = vi.fn();
+    const storage = createRaffleStorage({ onWrite: writes });
+    const event = savedEvent();
+    storage.setItem(RAFFLE_STORAGE_KEY, { state: { events: [event] }, version: 10 });
+    storage.setItem(RAFFLE_STORAGE_KEY, { state: { events: [{ ...event }] }, version: 10 });
+    expect(writes).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects corrupt ticket runs', () => {
+    stored.set(
+      RAFFLE_STORAGE_KEY,
+      JSON.stringify({ state: { events: [{ data: { tickets: { ticketRuns: [[5, 1]] } } }] } })
+    );
+    expect(() => createRaffleStorage().getItem(RAFFLE_STORAGE_KEY)).toThrow(RaffleStorageError);
+  });
+
+  it('rejects invalid dates', () => {
+    stored.set(RAFFLE_STORAGE_KEY, JSON.stringify({ state: { createdAt: 'not a date' } }));
+    expect(() => createRaffleStorage().getItem(RAFFLE_STORAGE_KEY)).toThrow(
+      'Invalid date stored in "createdAt"'
+    );
+  });
+});
+
+describe('migrateRaffleState', () => {
+  it('migrates a v1 save to v10', () => {
+    const drawnAt = '2023-12-24T18:00:00.000Z';
+    stored.set(
+      RAFFLE_STORAGE_KEY,
+      JSON.stringify({
+        state: {
+          tickets: ['1', '2', '3'],
+          prizes: [{ id: 'p1', name: 'Hamper', category: 'A', isAssigned: true, assignedTo: '2' }],
+          owners: [{ id: 'o1', name: 'Ada', ticketNumbers: ['1', '2'] }],
+          history: [{ id: 'h1', category: 'A', groupSize: 1, timestamp: drawnAt, results: [] }],
+        },
+        version: 1,
+      })
+    );
+
+    const { state, version } = createRaffleStorage().getItem(
+      RAFFLE_STORAGE_KEY
+    ) as StorageValue<unknown>;
+    const migrated = migrateRaffleState(state, version!) as {
+      events: { id: string; name: string; data: Record<string, unknown> }[];
+      activeEventId: string;
+    };
+
+    expect(RAFFLE_STORAGE_VERSION).toBe(10);
+    expect(migrated.activeEventId).toBe(migrated.events[0].id);
+    expect(migrated.events).toHaveLength(1);
+    expect(migrated.events[0]).toMatchObject({ name: 'My Raffle', isArchived: false });
+    expect(migrated.events[0].data).toEqual({
+      tickets: ['1', '2', '3'],
+      prizes: [{ id: 'p1', name: 'Hamper', category: 'A', isAssigned: true, assignedTo: '2' }],
+      categories: ['A', 'B', 'C'],
+      owners: [{ id: 'o1', name: 'Ada', ticketNumbers: ['1', '2'] }],
+      history: [{ id: 'h1', category: 'A', groupSize: 1, timestamp: new Date(drawnAt), results: [] }],
+      ticketWeights: {},
+      eligibilityRules: {
+        maxWinsPerOwner: null,
+        maxWinsPerOwnerPerCategory: null,
+        removeOwnerTicketsOnWin: false,
+      },
+      programme: [],
+      elimination: null,
+      ticketFormat: null,
+      ticketStatuses: [],
+      priceTiers: [],
+      sales: [],
+      sellerBooks: [],
+    });
+  });
+
+  it('refuses a save from a newer version', () => {
+    expect(() => migrateRaffleState({}, RAFFLE_STORAGE_VERSION + 1)).toThrow(RaffleStorageError);
+  });
+});
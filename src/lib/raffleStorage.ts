@@ -0,0 +1,240 @@
+import type { PersistStorage, StorageValue } from 'zustand/middleware';
+import { TicketRun, decodeTicketRuns, encodeTicketRuns } from '@/lib/ticketPool';
+
+export const RAFFLE_STORAGE_KEY = 'raffle-draw-state';
+export const RAFFLE_STORAGE_VERSION = 10;
+
+const BACKUP_SUFFIX = ':backup';
+
+// Keys whose string values are serialized `Date`s and must be revived on load
+const DATE_KEYS = new Set(['timestamp', 'createdAt', 'voidedAt', 'startedAt', 'reconciledAt']);
+
+// Keys of ticket lists that are stored as `{ ticketRuns }` to stay compact
+const TICKET_LIST_KEYS = new Set(['tickets', 'ticketNumbers', 'returnedTickets', 'addedTickets']);
+
+export class RaffleStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RaffleStorageError';
+  }
+}
+
+export interface StorageRecovery {
+  error: string;
+  raw: string;
+  backupKey: string;
+}
+
+// ------------------- SERIALIZATION -------------------
+const isTicketRun = (run: unknown) =>
+  typeof run === 'string' ||
+  (Array.isArray(run) &&
+    (run.length === 2 ||
+      (run.length === 5 &&
+        typeof run[2] === 'string' &&
+        Number.isSafeInteger(run[3]) &&
+        typeof run[4] === 'string')) &&
+    Number.isSafeInteger(run[0]) &&
+    Number.isSafeInteger(run[1]) &&
+    run[0] <= run[1]);
+
+const revive = (key: string, value: unknown) => {
+  if (DATE_KEYS.has(key) && typeof value === 'string') {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new RaffleStorageError(`Invalid date stored in "${key}"`);
+    }
+    return date;
+  }
+  if (TICKET_LIST_KEYS.has(key) && value && typeof value === 'object' && 'ticketRuns' in value) {
+    const { ticketRuns } = value as { ticketRuns: unknown };
+    if (!Array.isArray(ticketRuns) || !ticketRuns.every(isTicketRun)) {
+      throw new RaffleStorageError(`Invalid ticket runs stored in "${key}"`);
+    }
+    return decodeTicketRuns(ticketRuns as TicketRun[]);
+  }
+  return value;
+};
+
+const compactTicketLists = (key: string, value: unknown) =>
+  TICKET_LIST_KEYS.has(key) && Array.isArray(value)
+    ? { ticketRuns: encodeTicketRuns(value) }
+    : value;
+
+const isPlainContainer = (value: unknown): value is Record<string, unknown> =>
+  Array.isArray(value) ||
+  (typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype);
+
+/**
+ * Whether `a` and `b` hold the same values, comparing arrays and plain objects
+ * key by key down to `depth` levels and anything deeper by reference.
+ */
+function sameUpTo(a: unknown, b: unknown, depth: number): boolean {
+  if (a === b) return true;
+  if (depth === 0 || !isPlainContainer(a) || !isPlainContainer(b)) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const keys = Object.keys(a);
+  return (
+    keys.length === Object.keys(b).length && keys.every(key => sameUpTo(a[key], b[key], depth - 1))
+  );
+}
+
+// The persisted value's event data fields sit at { state: { events: [{ data: { … } }] } }
+const EVENT_FIELD_DEPTH = 5;
+
+export interface RaffleStorageOptions {
+  /** Writes are skipped while this returns false. */
+  canWrite?: () => boolean;
+  /** Called after every write attempt, with the error when the browser refused it. */
+  onWrite?: (error: unknown) => void;
+}
+
+export function createRaffleStorage<S>({
+  canWrite = () => true,
+  onWrite,
+}: RaffleStorageOptions = {}): PersistStorage<S> {
+  // Store updates that leave the persisted state alone, like the draw
+  // animation's, would otherwise serialize a possibly huge pool again
+  let lastWritten: StorageValue<S> | null = null;
+
+  return {
+    getItem: name => {
+      const raw = localStorage.getItem(name);
+      if (raw === null) return null;
+
+      let parsed: StorageValue<S>;
+      try {
+        parsed = JSON.parse(raw, revive);
+      } catch (e) {
+        if (e instanceof RaffleStorageError) throw e;
+        throw new RaffleStorageError('Stored data is not valid JSON');
+      }
+
+      if (
+        !parsed ||
+        typeof parsed !== 'object' ||
+        typeof parsed.state !== 'object' ||
+        parsed.state === null
+      ) {
+        throw new RaffleStorageError('Stored data has an unexpected shape');
+      }
+      return parsed;
+    },
+    setItem: (name, value) => {
+      if (!canWrite() || sameUpTo(value, lastWritten, EVENT_FIELD_DEPTH)) return;
+      try {
+        localStorage.setItem(name, JSON.stringify(value, compactTicketLists));
+        lastWritten = value;
+        onWrite?.(null);
+      } catch (e) {
+        // Usually the quota: the change stays in memory but is not saved
+        onWrite?.(e);
+      }
+    },
+    removeItem: name => {
+      lastWritten = null;
+      localStorage.removeItem(name);
+    },
+  };
+}
+
+// ------------------- MIGRATIONS -------------------
+// Each entry upgrades persisted state from version `n - 1` to version `n`.
+// Add a step here (and bump RAFFLE_STORAGE_VERSION) whenever the persisted
+// shape in `src/types/raffle.ts` changes.
+type StoredState = Record<string, unknown>;
+type Migration = (state: StoredState) => StoredState;
+
+// Adds `fields` to the data of every stored event
+const withEventData = (state: StoredState, fields: StoredState): StoredState => ({
+  ...state,
+  events: (state.events as StoredState[]).map(e => ({
+    ...e,
+    data: { ...(e.data as StoredState), ...fields },
+  })),
+});
+
+const migrations: Record<number, Migration> = {
+  // v2: the single global pool becomes the first named event
+  2: ({ tickets = [], prizes = [], categories = ['A', 'B', 'C'], owners = [], history = [] }) => {
+    const id = crypto.randomUUID();
+    return {
+      events: [
+        {
+          id,
+          name: 'My Raffle',
+          createdAt: new Date(),
+          isArchived: false,
+          data: { tickets, prizes, categories, owners, history },
+        },
+      ],
+      activeEventId: id,
+    };
+  },
+  // v3: optional per-ticket weights (entries)
+  3: state => withEventData(state, { ticketWeights: {} }),
+  // v4: per-event owner eligibility rules, all off
+  4: state =>
+    withEventData(state, {
+      eligibilityRules: {
+        maxWinsPerOwner: null,
+        maxWinsPerOwnerPerCategory: null,
+        removeOwnerTicketsOnWin: false,
+      },
+    }),
+  // v5: per-event draw programme, empty
+  5: state => withEventData(state, { programme: [] }),
+  // v6: no elimination draw in progress
+  6: state => withEventData(state, { elimination: null }),
+  // v7: free-form ticket numbers
+  7: state => withEventData(state, { ticketFormat: null }),
+  // v8: every existing ticket counts as sold
+  8: state => withEventData(state, { ticketStatuses: [] }),
+  // v9: no prices and an empty sales ledger
+  9: state => withEventData(state, { priceTiers: [], sales: [] }),
+  // v10: no tickets handed out to sellers
+  10: state => withEventData(state, { sellerBooks: [] }),
+};
+
+export function migrateRaffleState(persisted: unknown, fromVersion: number): unknown {
+  if (fromVersion > RAFFLE_STORAGE_VERSION) {
+    throw new RaffleStorageError(
+      `Stored data was written by a newer version (v${fromVersion}) of the app`
+    );
+  }
+
+  let state = persisted as StoredState;
+  for (let v = fromVersion + 1; v <= RAFFLE_STORAGE_VERSION; v++) {
+    const step = migrations[v];
+    if (step) state = step(state);
+  }
+  return state;
+}
+
+export function assertArrayFields(state: object, keys: string[]) {
+  for (const key of keys) {
+    if (key in state && !Array.isArray((state as Record<string, unknown>)[key])) {
+      throw new RaffleStorageError(`Stored field "${key}" is corrupt`);
+    }
+  }
+}
+
+// ------------------- RECOVERY -------------------
+export function backupCorruptState(name: string, error: unknown): StorageRecovery {
+  const raw = localStorage.getItem(name) ?? '';
+  const backupKey = `${name}${BACKUP_SUFFIX}`;
+  try {
+    localStorage.setItem(backupKey, raw);
+  } catch {
+    // Quota exceeded: the raw copy is still offered for download in memory
+  }
+  return {
+    error: error instanceof Error ? error.message : String(error),
+    raw,
+    backupKey,
+  };
+}
+
+export function discardBackup(recovery: StorageRecovery) {
+  localStorage.removeItem(recovery.backupKey);
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { RandomSource, randomIndex } from '@/lib/random';
+import { createSeededRandom } from '@/lib/provablyFair';
+
+const UINT32_RANGE = 2 ** 32;
+
+// Returns `values` in order, then fails the test if asked for more
+const sequence = (values: number[]): RandomSource & { calls: number } => {
+  const source = Object.assign(
+    () => {
+      if (source.calls >= values.length) throw new Error('Random source exhausted');
+      return values[source.calls++];
+    },
+    { calls: 0 }
+  );
+  return source;
+};
+
+describe('randomIndex', () => {
+  it('spreads picks uniformly over a pool that is not a power of two', async () => {
+    const n = 7;
+    const draws = 70_000;
+    // Seeded, so the test cannot fail by chance
+    const next = await createSeededRandom('random-index-uniformity');
+    const counts = new Array<number>(n).fill(0);
+    for (let i = 0; i < draws; i++) counts[randomIndex(next, n)]++;
+
+    const expected = draws / n;
+    const chiSquare = counts.reduce((sum, c) => sum + (c - expected) ** 2 / expected, 0);
+    // Critical value of the chi-square distribution with 6 degrees of freedom at p = 0.001
+    expect(chiSquare).toBeLessThan(22.458);
+  });
+
+  it('redraws values from the incomplete top bucket', () => {
+    const n = 3;
+    const limit = UINT32_RANGE - (UINT32_RANGE % n);
+    const next = sequence([limit, UINT32_RANGE - 1, limit - 1]);
+
+    expect(randomIndex(next, n)).toBe((limit - 1) % n);
+    expect(next.calls).toBe(3);
+  });
+
+  it('accepts the first value below the limit', () => {
+    const next = sequence([5]);
+    expect(randomIndex(next, 3)).toBe(2);
+    expect(next.calls).toBe(1);
+  });
+
+  it('never rejects when the pool size divides 2^32', () => {
+    const next = sequence([UINT32_RANGE - 1]);
+    expect(randomIndex(next, 4)).toBe(3);
+  });
+
+  it.each([0, -1, 1.5, NaN, Infinity, UINT32_RANGE + 1])('rejects a pool of %s', n => {
+    expect(() => randomIndex(sequence([0]), n)).toThrow(RangeError);
+  });
+});
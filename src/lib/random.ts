@@ -0,0 +1,30 @@
+/** A source of uniformly distributed unsigned 32-bit integers. */
+export type RandomSource = () => number;
+
+const UINT32_RANGE = 2 ** 32;
+
+export const cryptoRandom: RandomSource = () => {
+  const rand = new Uint32Array(1);
+  crypto.getRandomValues(rand);
+  return rand[0];
+};
+
+/**
+ * Uniform integer in [0, n).
+ *
+ * `next() % n` favours low indices whenever n does not divide 2^32, so values
+ * from the incomplete top bucket are rejected and redrawn. At most half of
+ * the range is ever rejected, so the expected number of calls is below 2.
+ */
+export function randomIndex(next: RandomSource, n: number): number {
+  if (!Number.isInteger(n) || n <= 0 || n > UINT32_RANGE) {
+    throw new RangeError(`Cannot pick an index from a pool of ${n}`);
+  }
+
+  const limit = UINT32_RANGE - (UINT32_RANGE % n);
+  let value = next();
+  while (value >= limit) {
+    value = next();
+  }
+  return value % n;
+}
@@ -0,0 +1,124 @@
+import { format } from 'date-fns';
+import { PaymentMethod, PriceTier, Sale } from '@/types/raffle';
+
+/**
+ * Ticket prices and the sales ledger: what a purchase costs under the
+ * event's price tiers, and revenue totals for reporting.
+ */
+
+export const PAYMENT_METHODS: PaymentMethod[] = ['cash', 'card', 'transfer', 'other'];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  transfer: 'Bank transfer',
+  other: 'Other',
+};
+
+export const formatMoney = (amount: number) =>
+  amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Whole cents, so sums of prices like 0.1 + 0.2 compare exactly
+const toCents = (amount: number) => Math.round(amount * 100);
+
+/**
+ * Cheapest price of exactly `ticketCount` tickets made up of the tiers, e.g.
+ * 7 tickets as a bundle of 5 and two singles; null when no combination of
+ * tiers adds up to that many tickets.
+ */
+export function priceFor(ticketCount: number, tiers: PriceTier[]): number | null {
+  if (ticketCount <= 0) return 0;
+  const usable = tiers.filter(t => Number.isInteger(t.ticketCount) && t.ticketCount > 0);
+  // cheapest[n] is the lowest price in cents of exactly n tickets
+  const cheapest = new Array<number>(ticketCount + 1).fill(Infinity);
+  cheapest[0] = 0;
+  for (let n = 1; n <= ticketCount; n++) {
+    for (const tier of usable) {
+      if (tier.ticketCount <= n) {
+        cheapest[n] = Math.min(cheapest[n], cheapest[n - tier.ticketCount] + toCents(tier.price));
+      }
+    }
+  }
+  return Number.isFinite(cheapest[ticketCount]) ? cheapest[ticketCount] / 100 : null;
+}
+
+/** Tickets recorded in any sale of the ledger. */
+export const soldTickets = (sales: Sale[]) => new Set(sales.flatMap(s => s.tickets));
+
+export interface RevenueRow {
+  key: string;
+  sales: number;
+  tickets: number;
+  revenue: number;
+}
+
+function revenueBy(sales: Sale[], keyOf: (sale: Sale) => string): RevenueRow[] {
+  const rows = new Map<string, RevenueRow>();
+  for (const sale of sales) {
+    const key = keyOf(sale);
+    const row = rows.get(key) ?? { key, sales: 0, tickets: 0, revenue: 0 };
+    row.sales++;
+    row.tickets += sale.tickets.length;
+    row.revenue = (toCents(row.revenue) + toCents(sale.amount)) / 100;
+    rows.set(key, row);
+  }
+  return [...rows.values()];
+}
+
+export const revenueBySeller = (sales: Sale[]) =>
+  revenueBy(sales, s => s.seller || 'Unassigned').sort((a, b) => b.revenue - a.revenue);
+
+/** Newest day first. */
+export const revenueByDay = (sales: Sale[]) =>
+  revenueBy(sales, s => format(s.timestamp, 'yyyy-MM-dd')).sort((a, b) =>
+    b.key.localeCompare(a.key)
+  );
+
+export const revenueByMethod = (sales: Sale[]) =>
+  revenueBy(sales, s => PAYMENT_METHOD_LABELS[s.paymentMethod]);
+
+export const totalRevenue = (sales: Sale[]) =>
+  sales.reduce((cents, s) => cents + toCents(s.amount), 0) / 100;
+
+// ------------------- CSV -------------------
+const toCsv = (rows: (string | number)[][]) =>
+  rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(',')).join('\n');
+
+/** One row per sale, oldest first. */
+export const ledgerCsv = (sales: Sale[]) =>
+  toCsv([
+    ['Time', 'Buyer', 'Seller', 'Tickets', 'Ticket Count', 'Payment Method', 'Amount'],
+    ...[...sales]
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(s => [
+        format(s.timestamp, 'yyyy-MM-dd HH:mm:ss'),
+        s.buyerName,
+        s.seller,
+        s.tickets.join(' '),
+        s.tickets.length,
+        PAYMENT_METHOD_LABELS[s.paymentMethod],
+        s.amount.toFixed(2),
+      ]),
+  ]);
+
+/** Revenue per seller, per day and per payment method, with the total. */
+export const revenueCsv = (sales: Sale[]) =>
+  toCsv([
+    ['Group', 'Key', 'Sales', 'Tickets', 'Revenue'],
+    ...revenueBySeller(sales).map(r => ['Seller', r.key, r.sales, r.tickets, r.revenue.toFixed(2)]),
+    ...revenueByDay(sales).map(r => ['Day', r.key, r.sales, r.tickets, r.revenue.toFixed(2)]),
+    ...revenueByMethod(sales).map(r => [
+      'Payment method',
+      r.key,
+      r.sales,
+      r.tickets,
+      r.revenue.toFixed(2),
+    ]),
+    [
+      'Total',
+      '-',
+      sales.length,
+      sales.reduce((sum, s) => sum + s.tickets.length, 0),
+      totalRevenue(sales).toFixed(2),
+    ],
+  ]);
@@ -0,0 +1,107 @@
+import { Sale, SellerBook, TicketStatusGroup } from '@/types/raffle';
+import { soldTickets } from '@/lib/sales';
+import { statusOf } from '@/lib/ticketStatus';
+
+/**
+ * Reconciling the ticket books handed to sellers. Handing out a book marks
+ * its tickets unsold, so they stay out of draws; recording a sale marks them
+ * sold, and reconciling the book settles whatever is left.
+ */
+
+export interface BookReconciliation {
+  sold: string[];
+  returned: string[];
+  /**
+   * Neither sold nor returned: still to be accounted for in an open book,
+   * written off as void in a reconciled one.
+   */
+  missing: string[];
+}
+
+export function reconcileBook(book: SellerBook, groups: TicketStatusGroup[]): BookReconciliation {
+  const returned = new Set(book.returnedTickets);
+  const result: BookReconciliation = { sold: [], returned: [], missing: [] };
+  for (const ticket of book.tickets) {
+    if (returned.has(ticket)) result.returned.push(ticket);
+    else if (statusOf(groups, ticket) === 'sold') result.sold.push(ticket);
+    else result.missing.push(ticket);
+  }
+  return result;
+}
+
+export interface SellerSummary {
+  seller: string;
+  books: number;
+  issued: number;
+  sold: number;
+  returned: number;
+  /** Tickets of open books still to be accounted for; they are not drawn. */
+  missing: number;
+  writtenOff: number;
+  /** Books not reconciled yet. */
+  openBooks: number;
+}
+
+export function sellerSummaries(books: SellerBook[], groups: TicketStatusGroup[]): SellerSummary[] {
+  const summaries = new Map<string, SellerSummary>();
+  for (const book of books) {
+    const summary = summaries.get(book.seller) ?? {
+      seller: book.seller,
+      books: 0,
+      issued: 0,
+      sold: 0,
+      returned: 0,
+      missing: 0,
+      writtenOff: 0,
+      openBooks: 0,
+    };
+    const { sold, returned, missing } = reconcileBook(book, groups);
+    summary.books++;
+    summary.issued += book.tickets.length;
+    summary.sold += sold.length;
+    summary.returned += returned.length;
+    if (book.reconciledAt) {
+      summary.writtenOff += missing.length;
+    } else {
+      summary.missing += missing.length;
+      summary.openBooks++;
+    }
+    summaries.set(book.seller, summary);
+  }
+  return [...summaries.values()].sort((a, b) => a.seller.localeCompare(b.seller));
+}
+
+/** First and last ticket of the book with its size, e.g. "101–150 (50)". */
+export function bookLabel(book: SellerBook): string {
+  const first = book.tickets[0] ?? '';
+  const last = book.tickets[book.tickets.length - 1] ?? '';
+  return book.tickets.length === 1 ? first : `${first}–${last} (${book.tickets.length})`;
+}
+
+/** Seller of each ticket handed out in a book. */
+export function bookSellers(books: SellerBook[]): Map<string, string> {
+  const sellers = new Map<string, string>();
+  books.forEach(book => book.tickets.forEach(t => sellers.set(t, book.seller)));
+  return sellers;
+}
+
+/**
+ * Tickets that cannot go into a new book: handed out already, in the sales
+ * ledger, or in the pool as sold (e.g. scanned in sell mode) or void.
+ */
+export function unassignableTickets(
+  tickets: string[],
+  books: SellerBook[],
+  sales: Sale[],
+  pool: Set<string>,
+  groups: TicketStatusGroup[]
+): string[] {
+  const taken = bookSellers(books);
+  const inLedger = soldTickets(sales);
+  return tickets.filter(t => {
+    if (taken.has(t) || inLedger.has(t)) return true;
+    if (!pool.has(t)) return false;
+    const status = statusOf(groups, t);
+    return status === 'sold' || status === 'void';
+  });
+}
@@ -0,0 +1,186 @@
+import {
+  Category,
+  DrawResult,
+  DrawRound,
+  EligibilityRules,
+  Prize,
+  TicketOwner,
+} from '@/types/raffle';
+import {
+  DrawEngineError,
+  DrawFailureReason,
+  IndexPicker,
+  WeightOf,
+  availablePrizesFor,
+  runDraw,
+} from '@/lib/drawEngine';
+
+/**
+ * Dry runs of a whole event. Every run replays the planned rounds with the
+ * draw engine on private copies of the pool, prizes and earlier results, so
+ * nothing in the store changes. Runs are accumulated one at a time so the
+ * caller can spread thousands of them over several frames.
+ */
+
+export interface SimulatedRound {
+  category: Category;
+  groupSize: number;
+}
+
+export interface SimulationInput {
+  tickets: string[];
+  prizes: Prize[];
+  owners: TicketOwner[];
+  rules: EligibilityRules;
+  weightOf: WeightOf;
+  /** Standing results of draws already made in the event. */
+  priorResults: DrawResult[];
+  rounds: SimulatedRound[];
+}
+
+export interface OwnerOdds {
+  ownerId: string;
+  ownerName: string;
+  /** Share of runs in which the owner won at least one prize. */
+  winProbability: number;
+  expectedWins: number;
+}
+
+export interface RoundOutcome {
+  round: SimulatedRound;
+  /** Runs in which the round could not be drawn at all. */
+  failures: Partial<Record<DrawFailureReason, number>>;
+  /** Runs that drew fewer winners than planned because of eligibility limits. */
+  shortRuns: number;
+  expectedWinners: number;
+}
+
+export interface SimulationReport {
+  runs: number;
+  owners: OwnerOdds[];
+  /** Average number of owners winning two or more prizes per run. */
+  expectedMultiWinners: number;
+  /** Average number of prizes won by tickets without an owner. */
+  expectedUnownedWins: number;
+  rounds: RoundOutcome[];
+}
+
+/** Pending programme rounds, or one round per category drawing all its prizes. */
+export function planRounds(
+  programme: DrawRound[],
+  categories: Category[],
+  prizes: Prize[]
+): SimulatedRound[] {
+  const pending = programme.filter(r => r.status === 'pending');
+  if (pending.length > 0) {
+    return pending.map(({ category, groupSize }) => ({ category, groupSize }));
+  }
+  return categories
+    .map(category => ({ category, groupSize: availablePrizesFor(prizes, category).length }))
+    .filter(r => r.groupSize > 0);
+}
+
+export function createSimulation(input: SimulationInput, pickIndex: IndexPicker) {
+  const ownerByTicket = new Map<string, TicketOwner>();
+  input.owners.forEach(o => o.ticketNumbers.forEach(t => ownerByTicket.set(t, o)));
+  const ownerOf = (ticket: string) => ownerByTicket.get(ticket);
+  // Results drawn before owners were tracked on them
+  const earlierResults = input.priorResults.map(r =>
+    r.ownerId ? r : { ...r, ownerId: ownerOf(r.ticketNumber)?.id }
+  );
+
+  const winRuns = new Map<string, number>();
+  const winTotals = new Map<string, number>();
+  let multiWinnerTotal = 0;
+  let unownedWinTotal = 0;
+  let runs = 0;
+  const rounds: RoundOutcome[] = input.rounds.map(round => ({
+    round,
+    failures: {},
+    shortRuns: 0,
+    expectedWinners: 0,
+  }));
+  const winnerTotals = rounds.map(() => 0);
+
+  const runOnce = () => {
+    let pool = input.tickets;
+    let prizes = input.prizes;
+    const priorResults = [...earlierResults];
+    const wins = new Map<string, number>();
+
+    input.rounds.forEach((round, index) => {
+      let results: DrawResult[];
+      try {
+        const outcome = runDraw({
+          pool,
+          prizes,
+          category: round.category,
+          groupSize: round.groupSize,
+          pickIndex,
+          weightOf: input.weightOf,
+          eligibility: { rules: input.rules, ownerOf, priorResults },
+          timestamp: new Date(0),
+          createId: () => '',
+        });
+        results = outcome.results;
+        pool = outcome.remainingPool;
+      } catch (error) {
+        if (!(error instanceof DrawEngineError)) throw error;
+        const failures = rounds[index].failures;
+        failures[error.reason] = (failures[error.reason] ?? 0) + 1;
+        return;
+      }
+
+      if (results.length < round.groupSize) rounds[index].shortRuns++;
+      winnerTotals[index] += results.length;
+
+      const awarded = new Map(results.map(r => [r.prize.id, r.prize]));
+      prizes = prizes.map(p => awarded.get(p.id) ?? p);
+      priorResults.push(...results);
+      for (const result of results) {
+        if (result.ownerId) {
+          wins.set(result.ownerId, (wins.get(result.ownerId) ?? 0) + 1);
+        } else {
+          unownedWinTotal++;
+        }
+      }
+    });
+
+    wins.forEach((count, ownerId) => {
+      winRuns.set(ownerId, (winRuns.get(ownerId) ?? 0) + 1);
+      winTotals.set(ownerId, (winTotals.get(ownerId) ?? 0) + count);
+      if (count > 1) multiWinnerTotal++;
+    });
+    runs++;
+  };
+
+  return {
+    get runs() {
+      return runs;
+    },
+    run(count: number) {
+      for (let i = 0; i < count; i++) runOnce();
+    },
+    report(): SimulationReport {
+      const perRun = (total: number) => (runs > 0 ? total / runs : 0);
+      return {
+        runs,
+        owners: input.owners
+          .map(owner => ({
+            ownerId: owner.id,
+            ownerName: owner.name,
+            winProbability: perRun(winRuns.get(owner.id) ?? 0),
+            expectedWins: perRun(winTotals.get(owner.id) ?? 0),
+          }))
+          .sort((a, b) => b.winProbability - a.winProbability),
+        expectedMultiWinners: perRun(multiWinnerTotal),
+        expectedUnownedWins: perRun(unownedWinTotal),
+        rounds: rounds.map((outcome, index) => ({
+          ...outcome,
+          failures: { ...outcome.failures },
+          expectedWinners: perRun(winnerTotals[index]),
+        })),
+      };
+    },
+  };
+}
@@ -0,0 +1,170 @@
+import jsPDF from 'jspdf';
+import { Prize } from '@/types/raffle';
+import { code39Bars } from '@/lib/code39';
+
+/**
+ * Printable A4 ticket books: numbered tickets with a tear-off stub for the
+ * buyer's details, laid out in a grid and each carrying a Code 39 barcode of
+ * its ticket number.
+ */
+
+export interface TicketBookLayout {
+  ticketsPerPage: number;
+  title: string;
+  /** Lines describing the prizes, printed on each ticket. */
+  prizeSummary: string[];
+  footer: string;
+}
+
+/** Supported tickets per page, laid out in the grid of `gridFor`. */
+export const TICKETS_PER_PAGE_OPTIONS = [4, 5, 8, 10];
+
+/** Most tickets in one PDF; bigger books take too long to render in the page. */
+export const MAX_BOOK_TICKETS = 5000;
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MARGIN = 10;
+// Share of a ticket's width taken by its stub
+const STUB_SHARE = 0.32;
+const PADDING = 3;
+// Narrowest bar that still scans reliably on an office printer
+const MIN_MODULE = 0.19;
+const MAX_MODULE = 0.33;
+
+/** Rows and columns of a page holding `ticketsPerPage` tickets. */
+export const gridFor = (ticketsPerPage: number) =>
+  ticketsPerPage >= 8
+    ? { columns: 2, rows: ticketsPerPage / 2 }
+    : { columns: 1, rows: ticketsPerPage };
+
+export const pageCount = (ticketCount: number, ticketsPerPage: number) =>
+  Math.ceil(ticketCount / ticketsPerPage);
+
+/** One line per category: "Category A: Car, Bike (+2 more)". */
+export function summarizePrizes(prizes: Prize[], perCategory = 3): string[] {
+  const byCategory = new Map<string, string[]>();
+  prizes.forEach(p => byCategory.set(p.category, [...(byCategory.get(p.category) ?? []), p.name]));
+  return [...byCategory.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([category, names]) => {
+      const more = names.length - perCategory;
+      return `Category ${category}: ${names.slice(0, perCategory).join(', ')}${more > 0 ? ` (+${more} more)` : ''}`;
+    });
+}
+
+/**
+ * Draws the barcode of `ticket` centred in a box; returns false when the box
+ * is too narrow for it to scan.
+ */
+function drawBarcode(doc: jsPDF, ticket: string, x: number, y: number, width: number, height: number) {
+  const { bars, width: modules } = code39Bars(ticket);
+  // Quiet zones of ten modules on each side
+  const module = Math.min(MAX_MODULE, width / (modules + 20));
+  if (module < MIN_MODULE) return false;
+  const left = x + (width - modules * module) / 2;
+  doc.setFillColor(0, 0, 0);
+  bars.forEach(([offset, bar]) => doc.rect(left + offset * module, y, bar * module, height, 'F'));
+  return true;
+}
+
+function drawTicket(
+  doc: jsPDF,
+  ticket: string,
+  layout: TicketBookLayout,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+) {
+  const stubWidth = width * STUB_SHARE;
+  const mainX = x + stubWidth;
+  const mainWidth = width - stubWidth;
+
+  doc.setDrawColor(160);
+  doc.setLineWidth(0.2);
+  doc.rect(x, y, width, height);
+  // Tear-off line
+  doc.setLineDashPattern([1.5, 1], 0);
+  doc.line(mainX, y, mainX, y + height);
+  doc.setLineDashPattern([], 0);
+
+  // Stub, kept by the seller
+  doc.setTextColor(0);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(11);
+  doc.text(ticket, x + PADDING, y + PADDING + 4, { maxWidth: stubWidth - 2 * PADDING });
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  const blankWidth = stubWidth - 2 * PADDING;
+  ['Name', 'Phone'].forEach((label, i) => {
+    const lineY = y + height * (0.45 + i * 0.25);
+    doc.text(label, x + PADDING, lineY - 1.5);
+    doc.setDrawColor(120);
+    doc.line(x + PADDING, lineY + 2.5, x + PADDING + blankWidth, lineY + 2.5);
+  });
+
+  // Ticket, kept by the buyer
+  const textX = mainX + PADDING;
+  const textWidth = mainWidth - 2 * PADDING;
+  let textY = y + PADDING + 4;
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  const titleLines: string[] = doc.splitTextToSize(layout.title, textWidth - 30);
+  doc.text(titleLines[0] ?? '', textX, textY);
+  doc.setFontSize(16);
+  doc.text(ticket, mainX + mainWidth - PADDING, textY + 1, { align: 'right' });
+  textY += 7;
+
+  const barcodeHeight = 12;
+  const footerHeight = layout.footer ? 4 : 0;
+  const barcodeY = y + height - PADDING - footerHeight - barcodeHeight - 1;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(7);
+  const prizeLines = layout.prizeSummary.flatMap(
+    line => doc.splitTextToSize(line, textWidth) as string[]
+  );
+  const room = Math.max(0, Math.floor((barcodeY - textY - 1) / 3));
+  prizeLines.slice(0, room).forEach((line, i) => doc.text(line, textX, textY + i * 3));
+
+  if (!drawBarcode(doc, ticket, textX, barcodeY, textWidth, barcodeHeight)) {
+    doc.setFontSize(8);
+    doc.text(ticket, mainX + mainWidth / 2, barcodeY + barcodeHeight / 2, { align: 'center' });
+  }
+
+  if (layout.footer) {
+    doc.setFontSize(6);
+    doc.setTextColor(100);
+    const [footerLine = ''] = doc.splitTextToSize(layout.footer, textWidth) as string[];
+    doc.text(footerLine, mainX + mainWidth / 2, y + height - PADDING, { align: 'center' });
+  }
+}
+
+/** A4 PDF with `tickets` in order, `layout.ticketsPerPage` to a page. */
+export function createTicketBook(tickets: string[], layout: TicketBookLayout): jsPDF {
+  const doc = new jsPDF({ format: 'a4', unit: 'mm' });
+  const { columns, rows } = gridFor(layout.ticketsPerPage);
+  const cellWidth = (PAGE_WIDTH - 2 * MARGIN) / columns;
+  const cellHeight = (PAGE_HEIGHT - 2 * MARGIN) / rows;
+  // Room between tickets for cutting
+  const gap = 2;
+
+  tickets.forEach((ticket, i) => {
+    const slot = i % layout.ticketsPerPage;
+    if (i > 0 && slot === 0) doc.addPage();
+    const column = slot % columns;
+    const row = Math.floor(slot / columns);
+    drawTicket(
+      doc,
+      ticket,
+      layout,
+      MARGIN + column * cellWidth + gap / 2,
+      MARGIN + row * cellHeight + gap / 2,
+      cellWidth - gap,
+      cellHeight - gap
+    );
+  });
+
+  return doc;
+}
@@ -0,0 +1,61 @@
+import { TicketFormat } from '@/types/raffle';
+
+/**
+ * Ticket number formats such as `EVT-00042`. A format is written as a pattern
+ * where a run of `#` stands for the zero-padded number: `EVT-#####`.
+ *
+ * With a format set, `42`, `0042` and `EVT-0042` all normalise to the same
+ * canonical ticket, so pool tickets and owners' tickets match however they
+ * were typed. Without one, tickets are only trimmed.
+ */
+
+// Longest number kept exact by `Number`
+const MAX_DIGITS = 15;
+
+export function parseFormatPattern(pattern: string): TicketFormat | null {
+  const match = pattern.match(/^([^#]*)(#+)([^#]*)$/);
+  if (!match || match[2].length > MAX_DIGITS) return null;
+  return { prefix: match[1], digits: match[2].length, suffix: match[3] };
+}
+
+export const formatPattern = ({ prefix, digits, suffix }: TicketFormat) =>
+  `${prefix}${'#'.repeat(digits)}${suffix}`;
+
+export const formatTicket = (value: number, { prefix, digits, suffix }: TicketFormat) =>
+  `${prefix}${String(value).padStart(digits, '0')}${suffix}`;
+
+const startsWithIgnoringCase = (text: string, start: string) =>
+  text.slice(0, start.length).toLowerCase() === start.toLowerCase();
+
+const endsWithIgnoringCase = (text: string, end: string) =>
+  end === '' || text.slice(-end.length).toLowerCase() === end.toLowerCase();
+
+/**
+ * The number of a ticket written in `format`, with or without its prefix and
+ * suffix and with any zero padding; null when it is not such a ticket.
+ */
+export function ticketValue(ticket: string, format: TicketFormat): number | null {
+  let rest = ticket.trim();
+  if (format.prefix && startsWithIgnoringCase(rest, format.prefix)) {
+    rest = rest.slice(format.prefix.length);
+  }
+  if (format.suffix && rest.length > format.suffix.length && endsWithIgnoringCase(rest, format.suffix)) {
+    rest = rest.slice(0, -format.suffix.length);
+  }
+  if (!/^\d+$/.test(rest)) return null;
+  const value = Number(rest);
+  return String(value).length <= MAX_DIGITS ? value : null;
+}
+
+export const isValidTicket = (ticket: string, format: TicketFormat | null) =>
+  ticket.trim().length > 0 && (!format || ticketValue(ticket, format) !== null);
+
+/** Canonical form of `ticket`; tickets that do not fit the format are only trimmed. */
+export function normalizeTicket(ticket: string, format: TicketFormat | null): string {
+  if (!format) return ticket.trim();
+  const value = ticketValue(ticket, format);
+  return value === null ? ticket.trim() : formatTicket(value, format);
+}
+
+export const normalizeTickets = (tickets: string[], format: TicketFormat | null) =>
+  format ? tickets.map(t => normalizeTicket(t, format)) : tickets.map(t => t.trim());
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { decodeTicketRuns, encodeTicketRuns } from '@/lib/ticketPool';
+
+const range = (start: number, end: number, format: (n: number) => string = String) =>
+  Array.from({ length: end - start + 1 }, (_, i) => format(start + i));
+
+describe('encodeTicketRuns', () => {
+  it('stores consecutive plain numbers as [start, end] runs', () => {
+    expect(encodeTicketRuns([...range(1, 500), '502', ...range(998, 1003)])).toEqual([
+      [1, 500],
+      '502',
+      [998, 1003],
+    ]);
+  });
+
+  it('keeps the zero padding of padded numbers', () => {
+    expect(encodeTicketRuns(range(1, 120, n => String(n).padStart(4, '0')))).toEqual([
+      [1, 120, '', 4, ''],
+    ]);
+  });
+
+  it('keeps the prefix and suffix of numbered tickets', () => {
+    expect(encodeTicketRuns(range(9, 11, n => `EVT-${String(n).padStart(3, '0')}/B`))).toEqual([
+      [9, 11, 'EVT-', 3, '/B'],
+    ]);
+    expect(encodeTicketRuns(range(98, 101, n => `T${n}`))).toEqual([[98, 101, 'T', 1, '']]);
+  });
+
+  it('starts a new run where the padding, prefix or suffix changes', () => {
+    expect(encodeTicketRuns(['A-08', 'A-09', 'A-10', 'B-11', 'B-12', '013', '14'])).toEqual([
+      [8, 10, 'A-', 2, ''],
+      [11, 12, 'B-', 1, ''],
+      '013',
+      '14',
+    ]);
+  });
+
+  it('stores free-form tickets as they are', () => {
+    expect(encodeTicketRuns(['gold', 'silver', 'A1B', ''])).toEqual([
+      'gold',
+      'silver',
+      'A1B',
+      '',
+    ]);
+  });
+});
+
+describe('decodeTicketRuns', () => {
+  it.each([
+    ['plain numbers', [...range(1, 300), ...range(302, 310)]],
+    ['padded numbers', range(7, 1200, n => String(n).padStart(5, '0'))],
+    ['numbers outgrowing their padding', range(95, 1005, n => String(n).padStart(3, '0'))],
+    ['prefixed numbers', range(1, 50, n => `R2024-${n}`)],
+    ['suffixed numbers', range(1, 50, n => `${String(n).padStart(2, '0')}x`)],
+    ['free-form tickets', ['gold', 'silver', 'A1B2', 'bronze-', '-', '']],
+    ['zeros and leading zeros', ['0', '00', '000', '0', '1', '01', '001', '10']],
+    ['numbers beyond 15 digits', ['1234567890123456', '1234567890123457', '999999999999999']],
+    ['unsorted duplicates', ['5', '3', '4', '5', '6', 'EVT-01', 'EVT-02', 'EVT-01', '4']],
+  ])('round-trips %s', (_, tickets) => {
+    expect(decodeTicketRuns(encodeTicketRuns(tickets))).toEqual(tickets);
+  });
+});
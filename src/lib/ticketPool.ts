@@ -0,0 +1,180 @@
+import { TicketFormat } from '@/types/raffle';
+import { formatTicket } from '@/lib/ticketFormat';
+
+/**
+ * Operations on large ticket pools (hundreds of thousands of tickets).
+ *
+ * Pools stay plain `string[]` so the rest of the app and the draw engine are
+ * unchanged; what is avoided is the per-call cost: membership lookups go
+ * through a Set index cached per pool array, additions append only the new
+ * tickets, and removals make a single pass. Consecutive numbers are stored as
+ * runs, so a 1M-ticket range persists in a few bytes.
+ */
+
+/** Largest range added in one go. */
+export const MAX_RANGE_SIZE = 1_000_000;
+
+// Pool arrays are never mutated, so an index stays valid for its array
+const indexes = new WeakMap<string[], Set<string>>();
+
+/** Set of the tickets in `pool`, built once per pool array. */
+export function poolIndex(pool: string[]): Set<string> {
+  let index = indexes.get(pool);
+  if (!index) {
+    index = new Set(pool);
+    indexes.set(pool, index);
+  }
+  return index;
+}
+
+/**
+ * `pool` with the tickets of `additions` it does not hold yet appended in
+ * order, and how many were added. Returns the same array when nothing is new.
+ */
+export function addToPool(pool: string[], additions: string[]): { pool: string[]; added: number } {
+  const index = poolIndex(pool);
+  const fresh: string[] = [];
+  const seen = new Set<string>();
+  for (const ticket of additions) {
+    if (!index.has(ticket) && !seen.has(ticket)) {
+      seen.add(ticket);
+      fresh.push(ticket);
+    }
+  }
+  if (fresh.length === 0) return { pool, added: 0 };
+
+  const next = pool.concat(fresh);
+  // Hand the index over instead of rebuilding it for the new array
+  fresh.forEach(ticket => index.add(ticket));
+  indexes.delete(pool);
+  indexes.set(next, index);
+  return { pool: next, added: fresh.length };
+}
+
+/** `pool` without `removals`; the same array when none of them is in it. */
+export function removeFromPool(pool: string[], removals: Iterable<string>): string[] {
+  const index = poolIndex(pool);
+  const removed = new Set<string>();
+  for (const ticket of removals) {
+    if (index.has(ticket)) removed.add(ticket);
+  }
+  if (removed.size === 0) return pool;
+  return pool.filter(t => !removed.has(t));
+}
+
+/** Tickets `start` to `end` inclusive, written in `format` or as plain numbers. */
+export function ticketRange(start: number, end: number, format: TicketFormat | null = null): string[] {
+  return Array.from({ length: end - start + 1 }, (_, i) =>
+    format ? formatTicket(start + i, format) : String(start + i)
+  );
+}
+
+/**
+ * Tickets typed as a list ("1, 2, 7") or as a range ("100-250") written in
+ * `format`; null for a backwards or oversized range.
+ */
+export function readTicketInput(input: string, format: TicketFormat | null): string[] | null {
+  const range = input.trim().match(/^(\d+)\s*-\s*(\d+)$/);
+  if (!range) return input.split(/[,\n\s]+/).filter(t => t.length > 0);
+  const start = parseInt(range[1]);
+  const end = parseInt(range[2]);
+  if (start > end || end - start + 1 > MAX_RANGE_SIZE) return null;
+  return ticketRange(start, end, format);
+}
+
+// ------------------- STORAGE -------------------
+/**
+ * A single ticket, an inclusive run of consecutive plain numbers, or a run of
+ * numbers written with a prefix, zero padding to `width` and a suffix.
+ */
+export type TicketRun = string | [number, number] | [number, number, string, number, string];
+
+/**
+ * Value of a ticket that round-trips through `String(n)` (digits only, no
+ * leading zero, at most 15 digits), so runs decode to the same tickets; -1
+ * otherwise. Hand-rolled because it runs once per ticket on every save.
+ */
+function plainNumber(ticket: string): number {
+  const length = ticket.length;
+  if (length === 0 || length > 15 || (length > 1 && ticket.charCodeAt(0) === 48)) return -1;
+  let value = 0;
+  for (let i = 0; i < length; i++) {
+    const digit = ticket.charCodeAt(i) - 48;
+    if (digit < 0 || digit > 9) return -1;
+    value = value * 10 + digit;
+  }
+  return value;
+}
+
+// The last group of digits is the number: "EVT-00042" is "EVT-", 00042, ""
+const NUMBERED_TICKET = /^(.*?)(\d{1,15})(\D*)$/;
+
+const padded = (value: number, width: number) => String(value).padStart(width, '0');
+
+interface OpenRun {
+  prefix: string;
+  start: number;
+  end: number;
+  width: number;
+  suffix: string;
+}
+
+const closeRun = ({ prefix, start, end, width, suffix }: OpenRun): TicketRun => {
+  // Runs of one are stored as the ticket itself
+  if (start === end) return `${prefix}${padded(start, width)}${suffix}`;
+  return prefix === '' && suffix === '' && width === 1
+    ? [start, end]
+    : [start, end, prefix, width, suffix];
+};
+
+export function encodeTicketRuns(tickets: string[]): TicketRun[] {
+  const encoded: (string | OpenRun)[] = [];
+  let run: OpenRun | null = null;
+
+  for (const ticket of tickets) {
+    let value = plainNumber(ticket);
+    let prefix = '';
+    let digits = ticket;
+    let suffix = '';
+    if (value === -1) {
+      const match = ticket.match(NUMBERED_TICKET);
+      if (!match) {
+        run = null;
+        encoded.push(ticket);
+        continue;
+      }
+      [, prefix, digits, suffix] = match;
+      value = Number(digits);
+    }
+    if (
+      run &&
+      value === run.end + 1 &&
+      prefix === run.prefix &&
+      suffix === run.suffix &&
+      (run.width === 1 ? digits[0] !== '0' : padded(value, run.width) === digits)
+    ) {
+      run.end = value;
+    } else {
+      // Only zero padding needs a width; unpadded numbers may grow a digit
+      run = { prefix, start: value, end: value, width: digits[0] === '0' ? digits.length : 1, suffix };
+      encoded.push(run);
+    }
+  }
+
+  return encoded.map(item => (typeof item === 'string' ? item : closeRun(item)));
+}
+
+export function decodeTicketRuns(runs: TicketRun[]): string[] {
+  const tickets: string[] = [];
+  for (const run of runs) {
+    if (typeof run === 'string') {
+      tickets.push(run);
+    } else if (run.length === 2) {
+      for (let n = run[0]; n <= run[1]; n++) tickets.push(String(n));
+    } else {
+      const [start, end, prefix, width, suffix] = run;
+      for (let n = start; n <= end; n++) tickets.push(`${prefix}${padded(n, width)}${suffix}`);
+    }
+  }
+  return tickets;
+}
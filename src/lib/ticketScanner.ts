@@ -0,0 +1,96 @@
+import { fromCode39Symbols } from '@/lib/code39';
+
+/**
+ * Reading ticket codes from camera frames or still images. Decoders are
+ * pluggable: the default uses the browser's BarcodeDetector, and any other
+ * implementation (a JS decoder library, or a fake reading still images in
+ * tests) can be handed to the scanner instead.
+ */
+
+/** Anything a decoder can read: a video frame, an image, a canvas or a bitmap. */
+export type ScanSource = ImageBitmapSource;
+
+export interface TicketDecoder {
+  /** Text of every code found in `source`, empty when there is none. */
+  decode: (source: ScanSource) => Promise<string[]>;
+}
+
+/** Codes the printed ticket books use, plus QR codes. */
+const SCAN_FORMATS = ['code_39', 'code_128', 'qr_code'];
+
+interface DetectedBarcode {
+  rawValue: string;
+  format: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: ScanSource) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats: () => Promise<string[]>;
+}
+
+const barcodeDetector = () =>
+  (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+export const hasBarcodeDetector = () => barcodeDetector() !== undefined;
+
+/**
+ * Decoder backed by the BarcodeDetector API, or null where the browser has
+ * none (Firefox, desktop Safari); scanning then falls back to manual entry.
+ */
+export async function createBarcodeDetectorDecoder(): Promise<TicketDecoder | null> {
+  const Detector = barcodeDetector();
+  if (!Detector) return null;
+  const supported = await Detector.getSupportedFormats();
+  const formats = SCAN_FORMATS.filter(f => supported.includes(f));
+  if (formats.length === 0) return null;
+
+  const detector = new Detector({ formats });
+  return {
+    decode: async source => {
+      const codes = await detector.detect(source);
+      // Ticket books print Full ASCII Code 39, which detectors return raw
+      return codes.map(c => (c.format === 'code_39' ? fromCode39Symbols(c.rawValue) : c.rawValue));
+    },
+  };
+}
+
+/** Scans of the same code within this window are one scan of a held ticket. */
+export const RESCAN_DELAY_MS = 2000;
+
+/**
+ * Drops codes seen in the last `RESCAN_DELAY_MS`, so a ticket held in front
+ * of the camera counts once while a deliberate rescan still registers.
+ */
+export function createRepeatFilter(now: () => number = Date.now) {
+  const lastSeen = new Map<string, number>();
+  return (codes: string[]) =>
+    codes.filter(code => {
+      const time = now();
+      const previous = lastSeen.get(code);
+      lastSeen.set(code, time);
+      return previous === undefined || time - previous > RESCAN_DELAY_MS;
+    });
+}
+
+let audioContext: AudioContext | null = null;
+
+/** Short beep: high for a good scan, low and longer for a duplicate or error. */
+export function beep(kind: 'ok' | 'error') {
+  try {
+    audioContext ??= new AudioContext();
+    const oscillator = audioContext.createOscillator();
+    const gain = audioContext.createGain();
+    oscillator.frequency.value = kind === 'ok' ? 1200 : 220;
+    oscillator.type = kind === 'ok' ? 'sine' : 'square';
+    gain.gain.value = 0.1;
+    oscillator.connect(gain).connect(audioContext.destination);
+    oscillator.start();
+    oscillator.stop(audioContext.currentTime + (kind === 'ok' ? 0.08 : 0.3));
+  } catch {
+    // No audio output; the flash still shows the result
+  }
+}
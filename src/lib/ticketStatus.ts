@@ -0,0 +1,120 @@
+import { TicketStatus, TicketStatusGroup } from '@/types/raffle';
+import { poolIndex } from '@/lib/ticketPool';
+
+/**
+ * Ticket lifecycle statuses. Tickets are sold unless listed in a status
+ * group, so pools without statuses cost nothing extra and the groups'
+ * `tickets` lists are stored as compact runs like the pool itself.
+ */
+
+export const TICKET_STATUSES: TicketStatus[] = ['sold', 'unsold', 'void', 'refunded'];
+
+export const TICKET_STATUS_LABELS: Record<TicketStatus, string> = {
+  sold: 'Sold',
+  unsold: 'Unsold',
+  void: 'Void',
+  refunded: 'Refunded',
+};
+
+/** Statuses whose tickets take part in draws. */
+export const DRAWABLE_STATUSES: ReadonlySet<TicketStatus> = new Set(['sold']);
+
+/** Statuses that record why a ticket was taken out. */
+export const statusNeedsReason = (status: TicketStatus) =>
+  status === 'void' || status === 'refunded';
+
+// Groups arrays are never mutated, so a lookup stays valid for its array
+const lookups = new WeakMap<TicketStatusGroup[], Map<string, TicketStatusGroup>>();
+
+/** The status group of each ticket that is not sold. */
+export function statusLookup(groups: TicketStatusGroup[]): Map<string, TicketStatusGroup> {
+  let lookup = lookups.get(groups);
+  if (!lookup) {
+    lookup = new Map();
+    for (const group of groups) {
+      for (const ticket of group.tickets) lookup.set(ticket, group);
+    }
+    lookups.set(groups, lookup);
+  }
+  return lookup;
+}
+
+export const statusOf = (groups: TicketStatusGroup[], ticket: string): TicketStatus =>
+  statusLookup(groups).get(ticket)?.status ?? 'sold';
+
+/**
+ * `groups` with `tickets` moved to `status` (with `reason` for void and
+ * refunded tickets). Setting tickets back to sold just removes them.
+ */
+export function setTicketStatus(
+  groups: TicketStatusGroup[],
+  tickets: string[],
+  status: TicketStatus,
+  reason?: string
+): TicketStatusGroup[] {
+  const moving = new Set(tickets);
+  const next = groups
+    .map(g => ({ ...g, tickets: g.tickets.filter(t => !moving.has(t)) }))
+    .filter(g => g.tickets.length > 0);
+  if (status === 'sold' || moving.size === 0) return next;
+
+  const groupReason = statusNeedsReason(status) ? reason?.trim() || undefined : undefined;
+  const index = next.findIndex(g => g.status === status && g.reason === groupReason);
+  if (index === -1) {
+    return [...next, { status, reason: groupReason, tickets: [...moving] }];
+  }
+  return next.map((g, i) => (i === index ? { ...g, tickets: [...g.tickets, ...moving] } : g));
+}
+
+/** `groups` without `tickets`, e.g. once they are deleted from the event. */
+export function dropTicketStatuses(
+  groups: TicketStatusGroup[],
+  tickets: Iterable<string>
+): TicketStatusGroup[] {
+  const lookup = statusLookup(groups);
+  const dropped = new Set<string>();
+  for (const ticket of tickets) {
+    if (lookup.has(ticket)) dropped.add(ticket);
+  }
+  if (dropped.size === 0) return groups;
+  return groups
+    .map(g => ({ ...g, tickets: g.tickets.filter(t => !dropped.has(t)) }))
+    .filter(g => g.tickets.length > 0);
+}
+
+// Last pool computed for each groups array
+const drawPools = new WeakMap<TicketStatusGroup[], { tickets: string[]; pool: string[] }>();
+
+/**
+ * The tickets that take part in draws. Returns `tickets` itself when every
+ * ticket is drawable, and the same array for the same inputs otherwise.
+ */
+export function drawPool(tickets: string[], groups: TicketStatusGroup[]): string[] {
+  if (groups.every(g => DRAWABLE_STATUSES.has(g.status))) return tickets;
+  const cached = drawPools.get(groups);
+  if (cached?.tickets === tickets) return cached.pool;
+
+  const lookup = statusLookup(groups);
+  const pool = tickets.filter(t => {
+    const group = lookup.get(t);
+    return !group || DRAWABLE_STATUSES.has(group.status);
+  });
+  drawPools.set(groups, { tickets, pool });
+  return pool;
+}
+
+/** Number of `tickets` in each status. */
+export function countByStatus(
+  tickets: string[],
+  groups: TicketStatusGroup[]
+): Record<TicketStatus, number> {
+  const counts: Record<TicketStatus, number> = { sold: 0, unsold: 0, void: 0, refunded: 0 };
+  const index = poolIndex(tickets);
+  for (const group of groups) {
+    for (const ticket of group.tickets) {
+      if (index.has(ticket)) counts[group.status]++;
+    }
+  }
+  counts.sold = tickets.length - counts.unsold - counts.void - counts.refunded;
+  return counts;
+}
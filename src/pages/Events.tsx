@@ -0,0 +1,330 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+  Archive,
+  ArchiveRestore,
+  Check,
+  Copy,
+  Edit2,
+  FolderOpen,
+  Plus,
+  Trash2,
+  X,
+} from 'lucide-react';
+import { format } from 'date-fns';
+
+import { DuplicateEventOptions, RaffleEvent } from '@/types/raffle';
+import { useToast } from '@/hooks/use-toast';
+import { useRaffleState } from '@/hooks/useRaffleState';
+
+const DUPLICATE_FIELDS: { key: keyof DuplicateEventOptions; label: string }[] = [
+  { key: 'prizes', label: 'Prizes (reset to unassigned)' },
+  { key: 'categories', label: 'Categories' },
+  { key: 'owners', label: 'Ticket owners' },
+  { key: 'tickets', label: 'Tickets' },
+];
+
+const EventsPage = () => {
+  const raffle = useRaffleState();
+  const { toast } = useToast();
+
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [duplicateSource, setDuplicateSource] = useState<RaffleEvent | null>(null);
+  const [duplicateName, setDuplicateName] = useState('');
+  const [duplicateOptions, setDuplicateOptions] = useState<DuplicateEventOptions>({
+    prizes: true,
+    categories: true,
+    owners: false,
+    tickets: false,
+  });
+
+  // The active event's stored snapshot is stale; read its live data instead
+  const dataFor = (event: RaffleEvent) =>
+    event.id === raffle.activeEventId ? raffle : event.data;
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    raffle.createEvent(newName.trim());
+    setNewName('');
+    toast({ title: 'Event created' });
+  };
+
+  const handleSaveRename = () => {
+    if (!editingId || !editName.trim()) return;
+    raffle.renameEvent(editingId, editName.trim());
+    setEditingId(null);
+  };
+
+  const handleOpenDuplicate = (event: RaffleEvent) => {
+    setDuplicateSource(event);
+    setDuplicateName(`${event.name} (copy)`);
+  };
+
+  const handleDuplicate = () => {
+    if (!duplicateSource || !duplicateName.trim()) return;
+    raffle.duplicateEvent(duplicateSource.id, duplicateName.trim(), duplicateOptions);
+    setDuplicateSource(null);
+    toast({ title: 'Event duplicated' });
+  };
+
+  const handleDelete = (event: RaffleEvent) => {
+    if (!raffle.deleteEvent(event.id)) {
+      toast({
+        title: 'Cannot delete event',
+        description: 'At least one event must remain',
+        variant: 'destructive',
+      });
+      return;
+    }
+    toast({ title: 'Event deleted' });
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Events</h1>
+            <p className="text-sm text-muted-foreground">
+              Each event keeps its own tickets, prizes, owners and history
+            </p>
+          </div>
+
+          <Badge variant="secondary">{raffle.events.length} events</Badge>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>New Event</CardTitle>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Input
+              placeholder="Event name"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && handleCreate()}
+            />
+            <Button onClick={handleCreate}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>All Events</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Tickets</TableHead>
+                  <TableHead>Prizes</TableHead>
+                  <TableHead>Draws</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {raffle.events.map(event => {
+                  const data = dataFor(event);
+                  const isActive = event.id === raffle.activeEventId;
+                  return (
+                    <TableRow key={event.id}>
+                      <TableCell>
+                        {editingId === event.id ? (
+                          <div className="flex items-center gap-1">
+                            <Input
+                              value={editName}
+                              onChange={e => setEditName(e.target.value)}
+                              onKeyDown={e => e.key === 'Enter' && handleSaveRename()}
+                              className="h-8"
+                            />
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={handleSaveRename}>
+                              <Check className="h-4 w-4 text-green-500" />
+                            </Button>
+                            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => setEditingId(null)}>
+                              <X className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">{event.name}</span>
+                            {isActive && <Badge>Current</Badge>}
+                            {event.isArchived && <Badge variant="outline">Archived</Badge>}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>{format(event.createdAt, 'MMM d, yyyy')}</TableCell>
+                      <TableCell>{data.tickets.length}</TableCell>
+                      <TableCell>
+                        {data.prizes.filter(p => p.isAssigned).length}/{data.prizes.length}
+                      </TableCell>
+                      <TableCell>{data.history.length}</TableCell>
+                      <TableCell className="flex gap-1 justify-end">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Open"
+                          disabled={isActive || raffle.isDrawing}
+                          onClick={() => raffle.switchEvent(event.id)}
+                        >
+                          <FolderOpen className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Rename"
+                          onClick={() => {
+                            setEditingId(event.id);
+                            setEditName(event.name);
+                          }}
+                        >
+                          <Edit2 className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title="Duplicate as template"
+                          onClick={() => handleOpenDuplicate(event)}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          title={event.isArchived ? 'Unarchive' : 'Archive'}
+                          disabled={isActive && raffle.isDrawing}
+                          onClick={() => raffle.setEventArchived(event.id, !event.isArchived)}
+                        >
+                          {event.isArchived ? (
+                            <ArchiveRestore className="h-4 w-4" />
+                          ) : (
+                            <Archive className="h-4 w-4" />
+                          )}
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Delete"
+                              className="text-destructive"
+                              disabled={raffle.events.length <= 1}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete "{event.name}"?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                All tickets, prizes, owners and draw history of this event will be
+                                permanently removed. This action cannot be undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                onClick={() => handleDelete(event)}
+                                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Duplicate Dialog */}
+      <Dialog open={duplicateSource !== null} onOpenChange={open => !open && setDuplicateSource(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Duplicate Event</DialogTitle>
+            <DialogDescription>
+              Start a new event from "{duplicateSource?.name}". Draw history is never copied.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <Input
+              placeholder="Event name"
+              value={duplicateName}
+              onChange={e => setDuplicateName(e.target.value)}
+            />
+            <div className="space-y-2">
+              {DUPLICATE_FIELDS.map(({ key, label }) => (
+                <div key={key} className="flex items-center gap-2">
+                  <Checkbox
+                    id={`duplicate-${key}`}
+                    checked={duplicateOptions[key]}
+                    onCheckedChange={checked =>
+                      setDuplicateOptions(o => ({ ...o, [key]: checked === true }))
+                    }
+                  />
+                  <Label htmlFor={`duplicate-${key}`}>{label}</Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDuplicateSource(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleDuplicate}>
+              <Copy className="h-4 w-4 mr-2" />
+              Duplicate
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default EventsPage;
@@ -1,9 +1,12 @@
+import { useMemo } from 'react';
 import { TicketManagement } from '@/components/raffle/TicketManagement';
 import { PrizeManagement } from '@/components/raffle/PrizeManagement';
 import { DrawExecution } from '@/components/raffle/DrawExecution';
 import { DrawHistory } from '@/components/raffle/DrawHistory';
+import { ArchivedEventAlert } from '@/components/ArchivedEventAlert';
 
 import { useRaffleState } from '@/hooks/useRaffleState';
+import { createWeightOf } from '@/lib/drawEngine';
 import { Button } from '@/components/ui/button';
 
 import {
@@ -22,6 +25,12 @@ import { RotateCcw } from 'lucide-react';
 
 const Index = () => {
   const raffle = useRaffleState();
+  const activeEvent = raffle.getActiveEvent();
+  const isArchived = raffle.isActiveEventArchived();
+  const weightOf = useMemo(
+    () => createWeightOf(raffle.ticketWeights, raffle.owners),
+    [raffle.ticketWeights, raffle.owners]
+  );
 
   // ✅ MUST return string[]
   const handleImportFromOwners = (): string[] => {
@@ -36,13 +45,13 @@ const Index = () => {
         <div>
           <h1 className="text-2xl font-bold tracking-tight">Raffle Draw</h1>
           <p className="text-sm text-muted-foreground">
-            Fair • Transparent • Exciting
+            {activeEvent?.name} • Fair • Transparent • Exciting
           </p>
         </div>
 
         <AlertDialog>
           <AlertDialogTrigger asChild>
-            <Button variant="outline" size="sm">
+            <Button variant="outline" size="sm" disabled={isArchived}>
               <RotateCcw className="h-4 w-4 mr-2" />
               Reset All
             </Button>
@@ -52,7 +61,7 @@ const Index = () => {
             <AlertDialogHeader>
               <AlertDialogTitle>Reset Everything?</AlertDialogTitle>
               <AlertDialogDescription>
-                This will clear all tickets, prizes, and draw history. This action cannot be undone.
+                This will clear all tickets, prizes, and draw history of this event. This action cannot be undone.
               </AlertDialogDescription>
             </AlertDialogHeader>
 
@@ -69,17 +78,27 @@ const Index = () => {
         </AlertDialog>
       </div>
 
+      <ArchivedEventAlert />
+
       {/* Main Content */}
       <div className="space-y-6">
 
         {/* Management */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <fieldset disabled={isArchived} className="grid grid-cols-1 md:grid-cols-2 gap-6 min-w-0">
           <TicketManagement
             tickets={raffle.tickets}
             onAddTickets={raffle.addTickets}
+            ticketFormat={raffle.ticketFormat}
+            onSetTicketFormat={raffle.setTicketFormat}
             onAddRange={raffle.addTicketRange}
+            onRemoveTickets={raffle.removeTickets}
             onClearTickets={raffle.clearTickets}
             onImportFromOwners={handleImportFromOwners}
+            weightOf={weightOf}
+            onSetTicketWeights={raffle.setTicketWeights}
+            ticketStatuses={raffle.ticketStatuses}
+            onChangeTicketStatus={raffle.changeTicketStatus}
+            onScanTicket={raffle.scanTicket}
           />
 
           <PrizeManagement
@@ -93,27 +112,44 @@ const Index = () => {
             onDeleteCategory={raffle.deleteCategory}
             getPrizesByCategory={raffle.getPrizesByCategory}
           />
-        </div>
+        </fieldset>
 
         {/* Draw & History */}
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
-          <div className="lg:col-span-2">
+          <fieldset disabled={isArchived} className="lg:col-span-2 min-w-0">
             <DrawExecution
-              tickets={raffle.tickets}
+              tickets={raffle.getDrawPool()}
               categories={raffle.categories}
+              prizes={raffle.prizes}
               getAvailablePrizes={raffle.getAvailablePrizes}
               isDrawing={raffle.isDrawing}
               currentResults={raffle.currentResults}
               onExecuteDraw={raffle.executeDraw}
               onClearResults={raffle.clearCurrentResults}
+              onVoidResult={raffle.voidResult}
               getOwnerByTicket={raffle.getOwnerByTicket}
+              weightOf={weightOf}
+              pendingCommitment={raffle.pendingCommitment}
+              lastEntry={raffle.history[0]}
+              eligibilityRules={raffle.eligibilityRules}
+              onChangeEligibilityRules={raffle.setEligibilityRules}
+              onPublishCommitment={raffle.publishCommitment}
+              onDiscardCommitment={raffle.discardCommitment}
+              programme={raffle.programme}
+              onChangeProgramme={raffle.setProgramme}
+              elimination={raffle.elimination}
+              onStartElimination={raffle.startElimination}
+              onRunEliminationRound={raffle.runEliminationRound}
+              onCloseElimination={raffle.closeElimination}
             />
-          </div>
+          </fieldset>
 
           <div className="lg:col-span-1">
             <DrawHistory
               history={raffle.history}
               onReset={raffle.resetAll}
+              readOnly={isArchived}
+              onVoidResult={raffle.voidResult}
               getOwnerByTicket={raffle.getOwnerByTicket}
             />
           </div>
@@ -0,0 +1,461 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Download, Plus, Receipt, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+import { ArchivedEventAlert } from '@/components/ArchivedEventAlert';
+import { useRaffleState } from '@/hooks/useRaffleState';
+import { MAX_RANGE_SIZE, readTicketInput } from '@/lib/ticketPool';
+import { isValidTicket, normalizeTickets } from '@/lib/ticketFormat';
+import { statusOf } from '@/lib/ticketStatus';
+import {
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  RevenueRow,
+  formatMoney,
+  ledgerCsv,
+  priceFor,
+  revenueByDay,
+  revenueByMethod,
+  revenueBySeller,
+  revenueCsv,
+  soldTickets,
+  totalRevenue,
+} from '@/lib/sales';
+import { PaymentMethod } from '@/types/raffle';
+
+const downloadCsv = (csvContent: string, name: string) => {
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${name}-${format(new Date(), 'yyyy-MM-dd-HHmmss')}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+function RevenueTable({ title, rows }: { title: string; rows: RevenueRow[] }) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No sales yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{title.replace(/^By /, '')}</TableHead>
+                <TableHead className="text-right">Tickets</TableHead>
+                <TableHead className="text-right">Revenue</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => (
+                <TableRow key={row.key}>
+                  <TableCell>{row.key}</TableCell>
+                  <TableCell className="text-right font-mono">{row.tickets}</TableCell>
+                  <TableCell className="text-right font-mono">{formatMoney(row.revenue)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const SalesPage = () => {
+  const {
+    priceTiers,
+    sales,
+    ticketFormat,
+    ticketStatuses,
+    addPriceTier,
+    deletePriceTier,
+    recordSale,
+    deleteSale,
+    isActiveEventArchived,
+  } = useRaffleState();
+  const { toast } = useToast();
+  const isArchived = isActiveEventArchived();
+
+  const [tierName, setTierName] = useState('');
+  const [tierCount, setTierCount] = useState('1');
+  const [tierPrice, setTierPrice] = useState('');
+  const [buyerName, setBuyerName] = useState('');
+  const [seller, setSeller] = useState('');
+  const [ticketInput, setTicketInput] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>('cash');
+  const [amountInput, setAmountInput] = useState('');
+
+  const saleTickets = useMemo(
+    () => readTicketInput(ticketInput, ticketFormat) ?? [],
+    [ticketInput, ticketFormat]
+  );
+  const suggestedAmount = priceFor(saleTickets.length, priceTiers);
+  const sellers = useMemo(() => [...new Set(sales.map(s => s.seller).filter(Boolean))], [sales]);
+  const ticketsSold = sales.reduce((sum, s) => sum + s.tickets.length, 0);
+
+  const handleAddTier = () => {
+    const count = Number(tierCount);
+    const price = Number(tierPrice);
+    const name = tierName.trim() || (count === 1 ? 'Single' : `Bundle of ${count}`);
+    if (!tierPrice.trim() || !addPriceTier(name, count, price)) {
+      toast({
+        title: 'Invalid price tier',
+        description: 'Enter a whole number of tickets and a price of 0 or more',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setTierName('');
+    setTierCount('1');
+    setTierPrice('');
+  };
+
+  const handleRecordSale = () => {
+    const tickets = readTicketInput(ticketInput, ticketFormat);
+    if (!tickets || tickets.length === 0) {
+      toast({
+        title: 'No tickets',
+        description: `Enter ticket numbers or a range of at most ${MAX_RANGE_SIZE.toLocaleString()} tickets`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const invalid = tickets.filter(t => !isValidTicket(t, ticketFormat));
+    if (invalid.length > 0) {
+      toast({
+        title: 'Invalid tickets',
+        description: `${invalid.slice(0, 5).join(', ')}${invalid.length > 5 ? '…' : ''} do not match the ticket format`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const inLedger = soldTickets(sales);
+    const alreadySold = normalizeTickets(tickets, ticketFormat).filter(t => inLedger.has(t));
+    if (alreadySold.length > 0) {
+      toast({
+        title: 'Tickets already sold',
+        description: `${alreadySold.slice(0, 5).join(', ')}${alreadySold.length > 5 ? '…' : ''} are in another sale`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const voided = normalizeTickets(tickets, ticketFormat).filter(
+      t => statusOf(ticketStatuses, t) === 'void'
+    );
+    if (voided.length > 0) {
+      toast({
+        title: 'Void tickets',
+        description: `${voided.slice(0, 5).join(', ')}${voided.length > 5 ? '…' : ''} are void and cannot be sold`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const amount = amountInput.trim() ? Number(amountInput) : suggestedAmount;
+    if (amount === null || !(amount >= 0)) {
+      toast({
+        title: 'Amount required',
+        description: 'No combination of price tiers covers these tickets; enter the amount paid',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const sale = recordSale({ buyerName, seller, tickets, paymentMethod, amount });
+    if (!sale) return;
+    setBuyerName('');
+    setTicketInput('');
+    setAmountInput('');
+    toast({
+      title: 'Sale recorded',
+      description: `${sale.tickets.length} tickets for ${formatMoney(sale.amount)}`,
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Sales</h1>
+            <p className="text-sm text-muted-foreground">
+              Ticket prices, the sales ledger and revenue of this event
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Badge variant="secondary">{ticketsSold.toLocaleString()} tickets sold</Badge>
+            <Badge>{formatMoney(totalRevenue(sales))} revenue</Badge>
+          </div>
+        </div>
+
+        <ArchivedEventAlert />
+
+        <fieldset disabled={isArchived} className="grid grid-cols-1 lg:grid-cols-2 gap-6 min-w-0">
+          {/* Price Tiers */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Price Tiers</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex gap-2">
+                <Input
+                  placeholder="Name (e.g. Single)"
+                  value={tierName}
+                  onChange={e => setTierName(e.target.value)}
+                  className="flex-1"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  title="Tickets in the tier"
+                  value={tierCount}
+                  onChange={e => setTierCount(e.target.value)}
+                  className="w-20"
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder="Price"
+                  value={tierPrice}
+                  onChange={e => setTierPrice(e.target.value)}
+                  className="w-24"
+                />
+                <Button onClick={handleAddTier} size="icon" variant="secondary">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              {priceTiers.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Add a single-ticket price and any bundles, e.g. 5 tickets for the price of 4
+                </p>
+              ) : (
+                <div className="space-y-1">
+                  {priceTiers.map(tier => (
+                    <div key={tier.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        {tier.name}{' '}
+                        <span className="text-muted-foreground">
+                          ({tier.ticketCount} {tier.ticketCount === 1 ? 'ticket' : 'tickets'})
+                        </span>
+                      </span>
+                      <span className="flex items-center gap-2">
+                        <span className="font-mono">{formatMoney(tier.price)}</span>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-destructive hover:text-destructive"
+                          onClick={() => deletePriceTier(tier.id)}
+                        >
+                          <Trash2 className="h-3 w-3" />
+                        </Button>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Record Sale */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Record Sale</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="space-y-1">
+                  <Label htmlFor="sale-buyer">Buyer</Label>
+                  <Input
+                    id="sale-buyer"
+                    value={buyerName}
+                    onChange={e => setBuyerName(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="sale-seller">Seller</Label>
+                  <Input
+                    id="sale-seller"
+                    list="sale-sellers"
+                    value={seller}
+                    onChange={e => setSeller(e.target.value)}
+                  />
+                  <datalist id="sale-sellers">
+                    {sellers.map(name => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
+                </div>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sale-tickets">Tickets</Label>
+                <Input
+                  id="sale-tickets"
+                  placeholder="Tickets, or a range like 100-104"
+                  value={ticketInput}
+                  onChange={e => setTicketInput(e.target.value)}
+                />
+              </div>
+              <div className="flex gap-2">
+                <Select
+                  value={paymentMethod}
+                  onValueChange={v => setPaymentMethod(v as PaymentMethod)}
+                >
+                  <SelectTrigger className="w-40">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder={suggestedAmount !== null ? formatMoney(suggestedAmount) : 'Amount'}
+                  value={amountInput}
+                  onChange={e => setAmountInput(e.target.value)}
+                  className="flex-1"
+                />
+                <Button onClick={handleRecordSale}>
+                  <Receipt className="h-4 w-4 mr-2" />
+                  Record
+                </Button>
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {saleTickets.length > 0
+                  ? suggestedAmount !== null
+                    ? `${saleTickets.length} tickets at tier prices: ${formatMoney(suggestedAmount)}`
+                    : `No combination of tiers makes ${saleTickets.length} tickets; enter the amount`
+                  : 'The amount defaults to the cheapest combination of price tiers'}
+              </p>
+            </CardContent>
+          </Card>
+        </fieldset>
+
+        {/* Revenue */}
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <RevenueTable title="By Seller" rows={revenueBySeller(sales)} />
+          <RevenueTable title="By Day" rows={revenueByDay(sales)} />
+          <RevenueTable title="By Payment Method" rows={revenueByMethod(sales)} />
+        </div>
+
+        {/* Ledger */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Sales Ledger
+              <div className="ml-auto flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={sales.length === 0}
+                  onClick={() => downloadCsv(ledgerCsv(sales), 'raffle-sales')}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Ledger CSV
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={sales.length === 0}
+                  onClick={() => downloadCsv(revenueCsv(sales), 'raffle-revenue')}
+                >
+                  <Download className="h-4 w-4 mr-1" />
+                  Revenue CSV
+                </Button>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {sales.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No sales recorded yet</p>
+            ) : (
+              <ScrollArea className="h-[400px]">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Time</TableHead>
+                      <TableHead>Buyer</TableHead>
+                      <TableHead>Seller</TableHead>
+                      <TableHead>Tickets</TableHead>
+                      <TableHead>Payment</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead />
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {[...sales].reverse().map(sale => (
+                      <TableRow key={sale.id}>
+                        <TableCell className="whitespace-nowrap">
+                          {format(sale.timestamp, 'MMM d, HH:mm')}
+                        </TableCell>
+                        <TableCell>{sale.buyerName || '-'}</TableCell>
+                        <TableCell>{sale.seller || '-'}</TableCell>
+                        <TableCell className="font-mono text-xs max-w-[240px] truncate">
+                          {sale.tickets.length > 1
+                            ? `${sale.tickets.length} × ${sale.tickets.slice(0, 3).join(', ')}${sale.tickets.length > 3 ? '…' : ''}`
+                            : sale.tickets[0]}
+                        </TableCell>
+                        <TableCell>{PAYMENT_METHOD_LABELS[sale.paymentMethod]}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatMoney(sale.amount)}
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-destructive hover:text-destructive"
+                            title="Delete sale (book tickets become unsold, tickets it added leave the pool)"
+                            disabled={isArchived}
+                            onClick={() => deleteSale(sale.id)}
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </ScrollArea>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default SalesPage;
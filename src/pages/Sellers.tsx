@@ -0,0 +1,357 @@
+import { useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { BookOpen, CheckCircle2, Trash2, Undo2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+import { ArchivedEventAlert } from '@/components/ArchivedEventAlert';
+import { useRaffleState } from '@/hooks/useRaffleState';
+import { MAX_RANGE_SIZE, poolIndex, readTicketInput } from '@/lib/ticketPool';
+import {
+  bookLabel,
+  reconcileBook,
+  sellerSummaries,
+  unassignableTickets,
+} from '@/lib/sellerBooks';
+import { normalizeTickets } from '@/lib/ticketFormat';
+import { MissingTicketHandling, SellerBook } from '@/types/raffle';
+
+interface BookRowProps {
+  book: SellerBook;
+  onReturn: (book: SellerBook, input: string) => boolean;
+  onReconcile: (book: SellerBook, missing: MissingTicketHandling) => void;
+  onDelete: (book: SellerBook) => void;
+}
+
+function BookRow({ book, onReturn, onReconcile, onDelete }: BookRowProps) {
+  const ticketStatuses = useRaffleState(s => s.ticketStatuses);
+  const [returnInput, setReturnInput] = useState('');
+  const [missingAs, setMissingAs] = useState<MissingTicketHandling>('void');
+  const { sold, returned, missing } = useMemo(
+    () => reconcileBook(book, ticketStatuses),
+    [book, ticketStatuses]
+  );
+
+  return (
+    <div className="rounded-md border p-3 space-y-2">
+      <div className="flex items-center gap-2">
+        <span className="font-mono text-sm">{bookLabel(book)}</span>
+        <span className="text-sm text-muted-foreground">{book.seller}</span>
+        {book.reconciledAt ? (
+          <Badge variant="secondary" className="ml-auto">
+            <CheckCircle2 className="h-3 w-3 mr-1" />
+            Reconciled {format(book.reconciledAt, 'MMM d')}
+          </Badge>
+        ) : (
+          <Badge variant="outline" className="ml-auto">
+            Open since {format(book.createdAt, 'MMM d')}
+          </Badge>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-7 w-7 text-destructive hover:text-destructive"
+          title="Delete book record (once every ticket is accounted for)"
+          onClick={() => onDelete(book)}
+        >
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+      <div className="flex gap-4 text-xs">
+        <span>{sold.length} sold</span>
+        <span>{returned.length} returned</span>
+        <span className={missing.length > 0 ? 'text-destructive' : 'text-muted-foreground'}>
+          {missing.length} {book.reconciledAt ? 'written off' : 'unaccounted'}
+        </span>
+      </div>
+      {!book.reconciledAt && (
+        <div className="flex flex-wrap gap-2">
+          <Input
+            placeholder="Returned tickets, or a range"
+            value={returnInput}
+            onChange={e => setReturnInput(e.target.value)}
+            className="flex-1 min-w-[160px] h-8"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!returnInput.trim()}
+            onClick={() => onReturn(book, returnInput) && setReturnInput('')}
+          >
+            <Undo2 className="h-3 w-3 mr-1" />
+            Return
+          </Button>
+          <Select value={missingAs} onValueChange={v => setMissingAs(v as MissingTicketHandling)}>
+            <SelectTrigger className="w-44 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="void">Unaccounted are void</SelectItem>
+              <SelectItem value="sold">Unaccounted were sold</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button size="sm" onClick={() => onReconcile(book, missingAs)}>
+            Reconcile
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+const SellersPage = () => {
+  const {
+    sellerBooks,
+    sales,
+    tickets: pool,
+    ticketFormat,
+    ticketStatuses,
+    assignBook,
+    returnBookTickets,
+    reconcileSellerBook,
+    deleteSellerBook,
+    isActiveEventArchived,
+  } = useRaffleState();
+  const { toast } = useToast();
+  const isArchived = isActiveEventArchived();
+
+  const [seller, setSeller] = useState('');
+  const [ticketInput, setTicketInput] = useState('');
+
+  const summaries = useMemo(
+    () => sellerSummaries(sellerBooks, ticketStatuses),
+    [sellerBooks, ticketStatuses]
+  );
+  const blocked = summaries.reduce((sum, s) => sum + s.missing, 0);
+  const openBooks = summaries.reduce((sum, s) => sum + s.openBooks, 0);
+
+  const handleAssign = () => {
+    const tickets = readTicketInput(ticketInput, ticketFormat);
+    if (!seller.trim() || !tickets || tickets.length === 0) {
+      toast({
+        title: 'Invalid book',
+        description: `Enter a seller and tickets, or a range of at most ${MAX_RANGE_SIZE.toLocaleString()} tickets`,
+        variant: 'destructive',
+      });
+      return;
+    }
+    const conflicts = unassignableTickets(
+      normalizeTickets(tickets, ticketFormat),
+      sellerBooks,
+      sales,
+      poolIndex(pool),
+      ticketStatuses
+    );
+    if (conflicts.length > 0) {
+      toast({
+        title: 'Tickets already out',
+        description: `${conflicts.slice(0, 5).join(', ')}${conflicts.length > 5 ? '…' : ''} are in another book, already sold or void`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const book = assignBook(seller, tickets);
+    if (!book) {
+      toast({
+        title: 'Invalid book',
+        description: 'None of these tickets match the ticket format',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setTicketInput('');
+    toast({
+      title: 'Book assigned',
+      description: `${book.tickets.length} tickets (${bookLabel(book)}) handed to ${book.seller}`,
+    });
+  };
+
+  const handleReturn = (book: SellerBook, input: string) => {
+    const tickets = readTicketInput(input, ticketFormat);
+    const returned = tickets ? returnBookTickets(book.id, tickets) : 0;
+    toast(
+      returned > 0
+        ? { title: 'Tickets returned', description: `${returned} tickets back from ${book.seller}` }
+        : {
+            title: 'Nothing returned',
+            description: 'Only unsold tickets of this book that are not returned yet can be returned',
+            variant: 'destructive',
+          }
+    );
+    return returned > 0;
+  };
+
+  const handleDelete = (book: SellerBook) => {
+    if (deleteSellerBook(book.id)) return;
+    toast({
+      title: 'Book still open',
+      description: `Reconcile ${book.seller}'s book first, or its unsold tickets stay out of draws`,
+      variant: 'destructive',
+    });
+  };
+
+  const handleReconcile = (book: SellerBook, missingAs: MissingTicketHandling) => {
+    const { missing } = reconcileBook(book, ticketStatuses);
+    if (!reconcileSellerBook(book.id, missingAs)) return;
+    toast({
+      title: 'Book reconciled',
+      description:
+        missing.length > 0
+          ? `${missing.length} unaccounted tickets marked ${missingAs}`
+          : 'Every ticket was sold or returned',
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Sellers</h1>
+            <p className="text-sm text-muted-foreground">
+              Hand ticket books to sellers and reconcile what comes back. Tickets out with a seller
+              are only drawn once they are recorded as sold or their book is reconciled
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Badge variant="secondary">{openBooks} open books</Badge>
+            {blocked > 0 && <Badge variant="destructive">{blocked} unaccounted tickets</Badge>}
+          </div>
+        </div>
+
+        <ArchivedEventAlert />
+
+        <fieldset disabled={isArchived} className="grid grid-cols-1 lg:grid-cols-3 gap-6 min-w-0">
+          {/* Assign */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Assign Book</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <div className="space-y-1">
+                <Label htmlFor="book-seller">Seller</Label>
+                <Input
+                  id="book-seller"
+                  list="book-sellers"
+                  value={seller}
+                  onChange={e => setSeller(e.target.value)}
+                />
+                <datalist id="book-sellers">
+                  {summaries.map(s => (
+                    <option key={s.seller} value={s.seller} />
+                  ))}
+                </datalist>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="book-tickets">Tickets</Label>
+                <Input
+                  id="book-tickets"
+                  placeholder="A range like 101-150, or tickets"
+                  value={ticketInput}
+                  onChange={e => setTicketInput(e.target.value)}
+                />
+              </div>
+              <Button className="w-full" onClick={handleAssign}>
+                <BookOpen className="h-4 w-4 mr-2" />
+                Assign
+              </Button>
+            </CardContent>
+          </Card>
+
+          {/* Per seller */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Reconciliation</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {summaries.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No books handed out yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Seller</TableHead>
+                      <TableHead className="text-right">Books</TableHead>
+                      <TableHead className="text-right">Issued</TableHead>
+                      <TableHead className="text-right">Sold</TableHead>
+                      <TableHead className="text-right">Returned</TableHead>
+                      <TableHead className="text-right">Unaccounted</TableHead>
+                      <TableHead className="text-right">Written off</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {summaries.map(s => (
+                      <TableRow key={s.seller}>
+                        <TableCell>{s.seller}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {s.books}
+                          {s.openBooks > 0 && (
+                            <span className="text-muted-foreground"> ({s.openBooks} open)</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{s.issued}</TableCell>
+                        <TableCell className="text-right font-mono">{s.sold}</TableCell>
+                        <TableCell className="text-right font-mono">{s.returned}</TableCell>
+                        <TableCell
+                          className={`text-right font-mono ${s.missing > 0 ? 'text-destructive' : ''}`}
+                        >
+                          {s.missing}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">{s.writtenOff}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </fieldset>
+
+        {/* Books */}
+        {sellerBooks.length > 0 && (
+          <fieldset disabled={isArchived} className="min-w-0">
+            <Card>
+              <CardHeader>
+                <CardTitle>Books</CardTitle>
+              </CardHeader>
+              <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                {[...sellerBooks].reverse().map(book => (
+                  <BookRow
+                    key={book.id}
+                    book={book}
+                    onReturn={handleReturn}
+                    onReconcile={handleReconcile}
+                    onDelete={handleDelete}
+                  />
+                ))}
+              </CardContent>
+            </Card>
+          </fieldset>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SellersPage;
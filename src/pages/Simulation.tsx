@@ -0,0 +1,318 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { AlertCircle, CheckCircle2, FlaskConical, Square } from 'lucide-react';
+
+import { DrawFailureReason, drawablePrizes, standingResults } from '@/lib/drawEngine';
+import { SimulationReport, createSimulation, planRounds } from '@/lib/simulation';
+import { useRaffleState } from '@/hooks/useRaffleState';
+
+const RUN_COUNTS = [1000, 5000, 10000];
+// Time spent running per frame. Every run rebuilds the pool, so on large pools
+// a fixed number of runs per frame would block the page for seconds
+const FRAME_BUDGET_MS = 16;
+
+const FAILURE_LABELS: Record<DrawFailureReason, string> = {
+  'invalid-group-size': 'invalid group size',
+  'insufficient-tickets': 'not enough tickets',
+  'insufficient-prizes': 'not enough prizes',
+  'invalid-prize-selection': 'invalid prize selection',
+};
+
+// Simulated draws only need speed, not unpredictability
+const simulationIndex = (n: number) => Math.floor(Math.random() * n);
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const SimulationPage = () => {
+  const {
+    prizes,
+    owners,
+    categories,
+    programme,
+    history,
+    eligibilityRules,
+    elimination,
+    getWeightOf,
+    getDrawPool,
+  } = useRaffleState();
+  // Only sold tickets take part in draws
+  const tickets = getDrawPool();
+  const [runCount, setRunCount] = useState(RUN_COUNTS[0]);
+  const [report, setReport] = useState<SimulationReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const cancelRef = useRef<(() => void) | null>(null);
+
+  // Prizes held by an elimination game in progress are not drawn
+  const available = useMemo(() => drawablePrizes(prizes, elimination), [prizes, elimination]);
+  const rounds = useMemo(
+    () => planRounds(programme, categories, available),
+    [programme, categories, available]
+  );
+  const usesProgramme = programme.some(r => r.status === 'pending');
+
+  // A report of another configuration would be misleading
+  useEffect(() => {
+    cancelRef.current?.();
+    setReport(null);
+  }, [tickets, available, owners, rounds, history, eligibilityRules]);
+
+  useEffect(() => () => cancelRef.current?.(), []);
+
+  const handleRun = () => {
+    const simulation = createSimulation(
+      {
+        tickets,
+        prizes: available,
+        owners,
+        rules: eligibilityRules,
+        weightOf: getWeightOf(),
+        priorResults: standingResults(history.flatMap(e => e.results)),
+        rounds,
+      },
+      simulationIndex
+    );
+
+    let timer: ReturnType<typeof setTimeout>;
+    const step = () => {
+      const started = performance.now();
+      do {
+        simulation.run(1);
+      } while (simulation.runs < runCount && performance.now() - started < FRAME_BUDGET_MS);
+      setReport(simulation.report());
+      if (simulation.runs < runCount) {
+        timer = setTimeout(step, 0);
+      } else {
+        cancelRef.current = null;
+        setIsRunning(false);
+      }
+    };
+
+    cancelRef.current = () => {
+      clearTimeout(timer);
+      cancelRef.current = null;
+      setIsRunning(false);
+    };
+    setIsRunning(true);
+    setReport(null);
+    timer = setTimeout(step, 0);
+  };
+
+  const failingRounds = report?.rounds.filter(
+    r => Object.keys(r.failures).length > 0 || r.shortRuns > 0
+  );
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-6xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Dry Run</h1>
+            <p className="text-sm text-muted-foreground">
+              Simulate the rest of the event many times without touching the real draws
+            </p>
+          </div>
+          <Badge variant="secondary">
+            {tickets.length} tickets • {rounds.length} rounds
+          </Badge>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Setup */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Planned Rounds</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-xs text-muted-foreground">
+                {usesProgramme
+                  ? 'Pending rounds of the draw programme, in order.'
+                  : 'No pending programme rounds: each category draws all of its remaining prizes.'}
+              </p>
+              <div className="space-y-1">
+                {rounds.map((round, index) => (
+                  <div key={index} className="flex justify-between text-sm">
+                    <span>
+                      {index + 1}. Category {round.category}
+                    </span>
+                    <span className="text-muted-foreground">{round.groupSize} winners</span>
+                  </div>
+                ))}
+                {rounds.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No prizes left to draw</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <Select
+                  value={String(runCount)}
+                  onValueChange={v => setRunCount(Number(v))}
+                  disabled={isRunning}
+                >
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {RUN_COUNTS.map(count => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count.toLocaleString()} runs
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {isRunning ? (
+                  <Button variant="outline" className="flex-1" onClick={() => cancelRef.current?.()}>
+                    <Square className="h-4 w-4 mr-2" />
+                    Stop
+                  </Button>
+                ) : (
+                  <Button className="flex-1" onClick={handleRun} disabled={rounds.length === 0}>
+                    <FlaskConical className="h-4 w-4 mr-2" />
+                    Run Simulation
+                  </Button>
+                )}
+              </div>
+              {report && <Progress value={(report.runs / runCount) * 100} />}
+            </CardContent>
+          </Card>
+
+          {/* Summary */}
+          <Card className="lg:col-span-2">
+            <CardHeader>
+              <CardTitle>Summary</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {!report ? (
+                <p className="text-sm text-muted-foreground">Run a simulation to see the odds</p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-3 gap-4 text-center">
+                    <div>
+                      <div className="text-2xl font-bold">{report.runs.toLocaleString()}</div>
+                      <div className="text-xs text-muted-foreground">runs</div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold">
+                        {report.expectedMultiWinners.toFixed(2)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        owners expected to win more than once
+                      </div>
+                    </div>
+                    <div>
+                      <div className="text-2xl font-bold">
+                        {report.expectedUnownedWins.toFixed(2)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        prizes expected to go to unowned tickets
+                      </div>
+                    </div>
+                  </div>
+
+                  {failingRounds && failingRounds.length === 0 ? (
+                    <div className="flex items-center gap-2 text-sm">
+                      <CheckCircle2 className="h-4 w-4 text-green-500" />
+                      Every round could be drawn in full in every run
+                    </div>
+                  ) : (
+                    <div className="space-y-1">
+                      {report.rounds.map((outcome, index) => {
+                        const failures = Object.entries(outcome.failures) as [
+                          DrawFailureReason,
+                          number,
+                        ][];
+                        if (failures.length === 0 && outcome.shortRuns === 0) return null;
+                        return (
+                          <div key={index} className="flex items-start gap-2 text-sm text-destructive">
+                            <AlertCircle className="h-4 w-4 mt-0.5 shrink-0" />
+                            <span>
+                              Round {index + 1} (Category {outcome.round.category}):{' '}
+                              {failures
+                                .map(
+                                  ([reason, count]) =>
+                                    `fails in ${percent(count / report.runs)} of runs (${FAILURE_LABELS[reason]})`
+                                )
+                                .concat(
+                                  outcome.shortRuns > 0
+                                    ? [
+                                        `draws fewer than ${outcome.round.groupSize} winners in ${percent(outcome.shortRuns / report.runs)} of runs (eligibility limits)`,
+                                      ]
+                                    : []
+                                )
+                                .join('; ')}
+                            </span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Owner odds */}
+        {report && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Owner Odds</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {report.owners.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  Register owners on the Ticket Owners page to see their odds
+                </p>
+              ) : (
+                <ScrollArea className="h-[400px]">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Owner</TableHead>
+                        <TableHead className="text-right">Chance to win</TableHead>
+                        <TableHead className="text-right">Expected wins</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.owners.map(owner => (
+                        <TableRow key={owner.ownerId}>
+                          <TableCell>{owner.ownerName}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {percent(owner.winProbability)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {owner.expectedWins.toFixed(2)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </ScrollArea>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SimulationPage;
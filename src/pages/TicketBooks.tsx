@@ -0,0 +1,240 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { AlertCircle, Download, Printer } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { format } from 'date-fns';
+
+import { useRaffleState } from '@/hooks/useRaffleState';
+import { formatTicket } from '@/lib/ticketFormat';
+import { ticketRange } from '@/lib/ticketPool';
+import {
+  MAX_BOOK_TICKETS,
+  TICKETS_PER_PAGE_OPTIONS,
+  createTicketBook,
+  pageCount,
+  summarizePrizes,
+} from '@/lib/ticketBook';
+import { isCode39Encodable } from '@/lib/code39';
+
+type TicketSource = 'pool' | 'range';
+
+const TicketBooksPage = () => {
+  const { tickets, prizes, ticketFormat, getActiveEvent } = useRaffleState();
+  const eventName = getActiveEvent().name;
+  const { toast } = useToast();
+
+  const [source, setSource] = useState<TicketSource>(tickets.length > 0 ? 'pool' : 'range');
+  const [rangeStart, setRangeStart] = useState('1');
+  const [rangeEnd, setRangeEnd] = useState('100');
+  const [ticketsPerPage, setTicketsPerPage] = useState(TICKETS_PER_PAGE_OPTIONS[2]);
+  const [title, setTitle] = useState(eventName);
+  const [showPrizes, setShowPrizes] = useState(true);
+  const [footer, setFooter] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  // Follow the event when switching events
+  useEffect(() => setTitle(eventName), [eventName]);
+
+  const start = parseInt(rangeStart);
+  const end = parseInt(rangeEnd);
+  const rangeSize = isNaN(start) || isNaN(end) || start < 0 || start > end ? 0 : end - start + 1;
+  const ticketCount = source === 'pool' ? tickets.length : rangeSize;
+  const prizeSummary = useMemo(() => summarizePrizes(prizes), [prizes]);
+
+  const problem =
+    ticketCount === 0
+      ? source === 'pool'
+        ? 'The ticket pool is empty'
+        : 'Enter a range of non-negative numbers with start less than or equal to end'
+      : ticketCount > MAX_BOOK_TICKETS
+        ? `At most ${MAX_BOOK_TICKETS.toLocaleString()} tickets per PDF; print large books in several ranges`
+        : null;
+
+  const handleDownload = () => {
+    if (problem) return;
+    const bookTickets = source === 'pool' ? tickets : ticketRange(start, end, ticketFormat);
+    const unscannable = bookTickets.filter(t => !isCode39Encodable(t)).length;
+    if (unscannable > 0) {
+      toast({
+        title: 'Cannot encode tickets',
+        description: `${unscannable} tickets contain characters a barcode cannot hold`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setIsGenerating(true);
+    // Let the button show its busy state before the page is blocked
+    setTimeout(() => {
+      try {
+        const doc = createTicketBook(bookTickets, {
+          ticketsPerPage,
+          title: title.trim() || eventName,
+          prizeSummary: showPrizes ? prizeSummary : [],
+          footer: footer.trim(),
+        });
+        doc.save(`ticket-book-${format(new Date(), 'yyyy-MM-dd-HHmmss')}.pdf`);
+        toast({
+          title: 'Ticket book ready',
+          description: `${bookTickets.length.toLocaleString()} tickets on ${pageCount(bookTickets.length, ticketsPerPage)} pages`,
+        });
+      } finally {
+        setIsGenerating(false);
+      }
+    }, 0);
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold">Ticket Books</h1>
+            <p className="text-sm text-muted-foreground">
+              Print numbered A4 tickets with a tear-off stub and a barcode on each ticket
+            </p>
+          </div>
+          <Badge variant="secondary">
+            {ticketCount.toLocaleString()} tickets • {pageCount(ticketCount, ticketsPerPage)} pages
+          </Badge>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {/* Tickets */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Tickets</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Print</Label>
+                <Select value={source} onValueChange={v => setSource(v as TicketSource)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pool">
+                      Current pool ({tickets.length.toLocaleString()} tickets)
+                    </SelectItem>
+                    <SelectItem value="range">A range of numbers</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {source === 'range' && (
+                <div className="space-y-2">
+                  <div className="flex gap-2 items-center">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Start"
+                      value={rangeStart}
+                      onChange={e => setRangeStart(e.target.value)}
+                    />
+                    <span className="text-muted-foreground">to</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="End"
+                      value={rangeEnd}
+                      onChange={e => setRangeEnd(e.target.value)}
+                    />
+                  </div>
+                  {rangeSize > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      {ticketFormat
+                        ? `${formatTicket(start, ticketFormat)} to ${formatTicket(end, ticketFormat)} (event format)`
+                        : `${start} to ${end}`}
+                    </p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Layout */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Layout</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Tickets per page</Label>
+                <Select
+                  value={String(ticketsPerPage)}
+                  onValueChange={v => setTicketsPerPage(Number(v))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TICKETS_PER_PAGE_OPTIONS.map(count => (
+                      <SelectItem key={count} value={String(count)}>
+                        {count} per page
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="book-title">Event title</Label>
+                <Input id="book-title" value={title} onChange={e => setTitle(e.target.value)} />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="book-prizes">Prize list summary</Label>
+                <Switch id="book-prizes" checked={showPrizes} onCheckedChange={setShowPrizes} />
+              </div>
+              {showPrizes && prizeSummary.length > 0 && (
+                <div className="text-xs text-muted-foreground space-y-0.5">
+                  {prizeSummary.map(line => (
+                    <p key={line}>{line}</p>
+                  ))}
+                </div>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="book-footer">Footer text</Label>
+                <Input
+                  id="book-footer"
+                  placeholder="e.g. Draw on 1 May at the town hall"
+                  value={footer}
+                  onChange={e => setFooter(e.target.value)}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+
+        <div className="flex items-center justify-end gap-4">
+          {problem && (
+            <span className="flex items-center gap-2 text-sm text-destructive">
+              <AlertCircle className="h-4 w-4" />
+              {problem}
+            </span>
+          )}
+          <Button onClick={handleDownload} disabled={!!problem || isGenerating}>
+            {isGenerating ? (
+              <Printer className="h-4 w-4 mr-2 animate-pulse" />
+            ) : (
+              <Download className="h-4 w-4 mr-2" />
+            )}
+            {isGenerating ? 'Generating…' : 'Download PDF'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TicketBooksPage;
@@ -1,4 +1,4 @@
-import { useState, useRef } from 'react';
+import { Fragment, useState, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -30,15 +30,57 @@ import {
   Trash2,
   Upload,
   Download,
+  FileDown,
   Edit2,
   Save,
   X,
 } from 'lucide-react';
 import Papa from 'papaparse';
 
-import { TicketOwner } from '@/types/raffle';
+import { OwnerProfile, TicketOwner } from '@/types/raffle';
 import { useToast } from '@/hooks/use-toast';
+import { isValidWeight } from '@/lib/drawEngine';
+import {
+  OWNER_PROFILE_FIELDS,
+  OWNERS_TEMPLATE_CSV,
+  ownerContact,
+  ownerFromCsvRow,
+  ownersCsv,
+  profileOf,
+} from '@/lib/ownerProfile';
 import { useRaffleState } from '@/hooks/useRaffleState';
+import { ArchivedEventAlert } from '@/components/ArchivedEventAlert';
+
+interface ProfileInputsProps {
+  profile: OwnerProfile;
+  onChange: (profile: OwnerProfile) => void;
+}
+
+function ProfileInputs({ profile, onChange }: ProfileInputsProps) {
+  return (
+    <>
+      {OWNER_PROFILE_FIELDS.map(({ key, label }) => (
+        <Input
+          key={key}
+          type={key === 'email' ? 'email' : key === 'phone' ? 'tel' : 'text'}
+          placeholder={`${label} (optional)`}
+          value={profile[key] ?? ''}
+          onChange={e => onChange({ ...profile, [key]: e.target.value })}
+        />
+      ))}
+    </>
+  );
+}
+
+const downloadCsv = (csv: string, filename: string) => {
+  const blob = new Blob([csv], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
 
 const TicketOwnersPage = () => {
   const {
@@ -48,16 +90,36 @@ const TicketOwnersPage = () => {
     deleteOwner,
     addBulkOwners,
     resetOwners,
+    isActiveEventArchived,
   } = useRaffleState();
+  const isArchived = isActiveEventArchived();
 
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [newName, setNewName] = useState('');
   const [newTickets, setNewTickets] = useState('');
+  const [newWeight, setNewWeight] = useState('1');
+  const [newProfile, setNewProfile] = useState<OwnerProfile>({});
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editName, setEditName] = useState('');
   const [editTickets, setEditTickets] = useState('');
+  const [editWeight, setEditWeight] = useState('1');
+  const [editProfile, setEditProfile] = useState<OwnerProfile>({});
+
+  // Blank means the default single entry per ticket
+  const parseWeight = (value: string) => {
+    const weight = Number(value.trim() || '1');
+    if (!isValidWeight(weight)) {
+      toast({
+        title: 'Invalid weight',
+        description: 'Weight must be a whole number of entries (1 or more)',
+        variant: 'destructive',
+      });
+      return null;
+    }
+    return weight === 1 ? undefined : weight;
+  };
 
   const handleAddOwner = () => {
     if (!newName.trim() || !newTickets.trim()) {
@@ -74,9 +136,14 @@ const TicketOwnersPage = () => {
       .map(t => t.trim())
       .filter(Boolean);
 
-    addOwner(newName.trim(), ticketNumbers);
+    const weight = parseWeight(newWeight);
+    if (weight === null) return;
+
+    addOwner(newName.trim(), ticketNumbers, weight, newProfile);
     setNewName('');
     setNewTickets('');
+    setNewWeight('1');
+    setNewProfile({});
 
     toast({ title: 'Owner added' });
   };
@@ -85,6 +152,8 @@ const TicketOwnersPage = () => {
     setEditingId(owner.id);
     setEditName(owner.name);
     setEditTickets(owner.ticketNumbers.join(', '));
+    setEditWeight(String(owner.weight ?? 1));
+    setEditProfile(profileOf(owner));
   };
 
   const handleSaveEdit = () => {
@@ -95,7 +164,10 @@ const TicketOwnersPage = () => {
       .map(t => t.trim())
       .filter(Boolean);
 
-    updateOwner(editingId, editName.trim(), tickets);
+    const weight = parseWeight(editWeight);
+    if (weight === null) return;
+
+    updateOwner(editingId, editName.trim(), tickets, weight, editProfile);
     setEditingId(null);
 
     toast({ title: 'Owner updated' });
@@ -109,15 +181,9 @@ const TicketOwnersPage = () => {
       header: true,
       skipEmptyLines: true,
       complete: result => {
-        const data = (result.data as any[])
-          .map(row => ({
-            name: row.name?.trim(),
-            ticketNumbers: row.tickets
-              ?.split(',')
-              .map((t: string) => t.trim())
-              .filter(Boolean),
-          }))
-          .filter(r => r.name && r.ticketNumbers?.length);
+        const data = (result.data as Record<string, string | undefined>[])
+          .map(ownerFromCsvRow)
+          .filter(r => r !== null);
 
         if (data.length === 0) {
           toast({
@@ -136,16 +202,9 @@ const TicketOwnersPage = () => {
     e.target.value = '';
   };
 
-  const downloadTemplate = () => {
-    const csv = 'name,tickets\nJohn Doe,"1,2,3"\nJane Smith,"10,11"';
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'ticket-owners-template.csv';
-    a.click();
-    URL.revokeObjectURL(url);
-  };
+  const downloadTemplate = () => downloadCsv(OWNERS_TEMPLATE_CSV, 'ticket-owners-template.csv');
+
+  const exportOwners = () => downloadCsv(ownersCsv(owners), 'ticket-owners.csv');
 
   const totalTickets = owners.reduce((sum, o) => sum + o.ticketNumbers.length, 0);
 
@@ -167,7 +226,9 @@ const TicketOwnersPage = () => {
           </Badge>
         </div>
 
-        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <ArchivedEventAlert />
+
+        <fieldset disabled={isArchived} className="grid grid-cols-1 lg:grid-cols-3 gap-6 min-w-0">
 
           {/* Add Owner */}
           <Card>
@@ -185,6 +246,15 @@ const TicketOwnersPage = () => {
                 value={newTickets}
                 onChange={e => setNewTickets(e.target.value)}
               />
+              <Input
+                type="number"
+                min={1}
+                placeholder="Entries per ticket (weight)"
+                title="Entries per ticket (weight)"
+                value={newWeight}
+                onChange={e => setNewWeight(e.target.value)}
+              />
+              <ProfileInputs profile={newProfile} onChange={setNewProfile} />
               <Button onClick={handleAddOwner} className="w-full">
                 <Plus className="h-4 w-4 mr-2" />
                 Add
@@ -204,6 +274,10 @@ const TicketOwnersPage = () => {
                   <Download className="h-4 w-4 mr-1" />
                   Template
                 </Button>
+                <Button variant="outline" onClick={exportOwners} disabled={owners.length === 0}>
+                  <FileDown className="h-4 w-4 mr-1" />
+                  Export
+                </Button>
                 <input
                   ref={fileInputRef}
                   type="file"
@@ -232,69 +306,105 @@ const TicketOwnersPage = () => {
                       <TableRow>
                         <TableHead>Name</TableHead>
                         <TableHead>Tickets</TableHead>
+                        <TableHead>Weight</TableHead>
+                        <TableHead>Contact</TableHead>
                         <TableHead />
                       </TableRow>
                     </TableHeader>
                     <TableBody>
                       {owners.map(owner => (
-                        <TableRow key={owner.id}>
-                          <TableCell>
-                            {editingId === owner.id ? (
-                              <Input
-                                value={editName}
-                                onChange={e => setEditName(e.target.value)}
-                              />
-                            ) : (
-                              owner.name
-                            )}
-                          </TableCell>
-
-                          <TableCell>
-                            {editingId === owner.id ? (
-                              <Input
-                                value={editTickets}
-                                onChange={e => setEditTickets(e.target.value)}
-                              />
-                            ) : (
-                              owner.ticketNumbers.join(', ')
-                            )}
-                          </TableCell>
-
-                          <TableCell className="flex gap-1">
-                            {editingId === owner.id ? (
-                              <>
-                                <Button size="icon" onClick={handleSaveEdit}>
-                                  <Save className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  onClick={() => setEditingId(null)}
-                                >
-                                  <X className="h-4 w-4" />
-                                </Button>
-                              </>
-                            ) : (
-                              <>
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  onClick={() => handleStartEdit(owner)}
-                                >
-                                  <Edit2 className="h-4 w-4" />
-                                </Button>
-                                <Button
-                                  size="icon"
-                                  variant="ghost"
-                                  className="text-destructive"
-                                  onClick={() => deleteOwner(owner.id)}
-                                >
-                                  <Trash2 className="h-4 w-4" />
-                                </Button>
-                              </>
-                            )}
-                          </TableCell>
-                        </TableRow>
+                        <Fragment key={owner.id}>
+                          <TableRow>
+                            <TableCell>
+                              {editingId === owner.id ? (
+                                <Input
+                                  value={editName}
+                                  onChange={e => setEditName(e.target.value)}
+                                />
+                              ) : (
+                                owner.name
+                              )}
+                            </TableCell>
+
+                            <TableCell>
+                              {editingId === owner.id ? (
+                                <Input
+                                  value={editTickets}
+                                  onChange={e => setEditTickets(e.target.value)}
+                                />
+                              ) : (
+                                owner.ticketNumbers.join(', ')
+                              )}
+                            </TableCell>
+
+                            <TableCell>
+                              {editingId === owner.id ? (
+                                <Input
+                                  type="number"
+                                  min={1}
+                                  value={editWeight}
+                                  onChange={e => setEditWeight(e.target.value)}
+                                  className="w-20"
+                                />
+                              ) : (
+                                `×${owner.weight ?? 1}`
+                              )}
+                            </TableCell>
+
+                            <TableCell className="text-sm">
+                              {ownerContact(owner)}
+                              {owner.organisation && (
+                                <div className="text-xs text-muted-foreground">
+                                  {owner.organisation}
+                                </div>
+                              )}
+                            </TableCell>
+
+                            <TableCell className="flex gap-1">
+                              {editingId === owner.id ? (
+                                <>
+                                  <Button size="icon" onClick={handleSaveEdit}>
+                                    <Save className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    onClick={() => setEditingId(null)}
+                                  >
+                                    <X className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              ) : (
+                                <>
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    onClick={() => handleStartEdit(owner)}
+                                  >
+                                    <Edit2 className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    size="icon"
+                                    variant="ghost"
+                                    className="text-destructive"
+                                    onClick={() => deleteOwner(owner.id)}
+                                  >
+                                    <Trash2 className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                          {editingId === owner.id && (
+                            <TableRow>
+                              <TableCell colSpan={5}>
+                                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                                  <ProfileInputs profile={editProfile} onChange={setEditProfile} />
+                                </div>
+                              </TableCell>
+                            </TableRow>
+                          )}
+                        </Fragment>
                       ))}
                     </TableBody>
                   </Table>
@@ -302,7 +412,7 @@ const TicketOwnersPage = () => {
               </ScrollArea>
             </CardContent>
           </Card>
-        </div>
+        </fieldset>
       </div>
     </div>
   );
@@ -0,0 +1,310 @@
+import { useState, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ShieldCheck, Upload, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+
+import { DrawRecord, DrawRecordFile } from '@/types/raffle';
+import {
+  DrawVerification,
+  parseDrawRecordFile,
+  parseTicketPool,
+  verifyDrawRecord,
+} from '@/lib/provablyFair';
+import { useToast } from '@/hooks/use-toast';
+
+const readFile = (file: File) => file.text();
+
+function CheckRow({ ok, label }: { ok: boolean; label: string }) {
+  return (
+    <div className="flex items-center gap-2 text-sm">
+      {ok ? (
+        <CheckCircle2 className="h-4 w-4 text-green-500" />
+      ) : (
+        <XCircle className="h-4 w-4 text-destructive" />
+      )}
+      {label}
+    </div>
+  );
+}
+
+function DrawVerifier({ draw }: { draw: DrawRecord }) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [poolText, setPoolText] = useState('');
+  const [verification, setVerification] = useState<DrawVerification | null>(null);
+
+  const handleVerify = async () => {
+    const { tickets, weightOf } = parseTicketPool(poolText);
+    if (tickets.length === 0) {
+      toast({
+        title: 'No tickets found',
+        description: 'Paste or upload the ticket pool published before this draw',
+        variant: 'destructive',
+      });
+      return;
+    }
+    setVerification(await verifyDrawRecord(draw, tickets, weightOf));
+  };
+
+  const handlePoolUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setPoolText(await readFile(file));
+    setVerification(null);
+    e.target.value = '';
+  };
+
+  const allMatch =
+    verification &&
+    verification.commitmentValid &&
+    verification.poolHashValid &&
+    verification.results.every(r => r.matches);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          Draw #{draw.drawNumber}
+          <Badge variant="outline">Category {draw.category}</Badge>
+          <span className="text-sm font-normal text-muted-foreground">
+            {format(new Date(draw.timestamp), 'MMM d, yyyy h:mm a')}
+          </span>
+          {verification && (
+            <div className="ml-auto flex gap-2">
+              {verification.discarded.length > 0 && (
+                <Badge variant="outline">{verification.discarded.length} picks discarded</Badge>
+              )}
+              <Badge variant={allMatch ? 'default' : 'destructive'}>
+                {allMatch ? 'Verified' : 'Mismatch'}
+              </Badge>
+            </div>
+          )}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="text-xs space-y-1 break-all">
+          <div>
+            <span className="text-muted-foreground">Commitment: </span>
+            <span className="font-mono">{draw.fairness.commitment}</span>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Pool hash: </span>
+            <span className="font-mono">{draw.fairness.poolHash}</span>
+          </div>
+          <div>
+            <span className="text-muted-foreground">Seed: </span>
+            <span className="font-mono">{draw.fairness.seed}</span>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Textarea
+            placeholder={`Ticket pool (${draw.fairness.poolSize} tickets, one per line, optional tab + weight)`}
+            value={poolText}
+            onChange={e => {
+              setPoolText(e.target.value);
+              setVerification(null);
+            }}
+            className="font-mono text-xs h-24"
+          />
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4 mr-2" />
+              Upload Pool
+            </Button>
+            <Button onClick={handleVerify} className="flex-1">
+              <ShieldCheck className="h-4 w-4 mr-2" />
+              Verify
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".txt,.csv"
+              onChange={handlePoolUpload}
+              className="hidden"
+            />
+          </div>
+        </div>
+
+        {verification && (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <CheckRow
+                ok={verification.algorithmSupported}
+                label={`Algorithm ${draw.fairness.algorithm}`}
+              />
+              <CheckRow ok={verification.commitmentValid} label="Seed matches the published commitment" />
+              <CheckRow
+                ok={verification.poolHashValid}
+                label={`Ticket pool matches the published hash (${verification.poolSize} tickets)`}
+              />
+            </div>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Prize</TableHead>
+                  <TableHead>Published</TableHead>
+                  <TableHead>Recomputed</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {verification.results.map((result, i) => (
+                  <TableRow key={i}>
+                    <TableCell>
+                      {result.prizeName}
+                      {result.expectedPrize !== undefined &&
+                        result.expectedPrize !== result.prizeName && (
+                          <div className="text-xs text-destructive">
+                            Recomputed: {result.expectedPrize}
+                          </div>
+                        )}
+                    </TableCell>
+                    <TableCell className="font-mono">#{result.ticketNumber}</TableCell>
+                    <TableCell className="font-mono">
+                      {result.expectedTicket ? `#${result.expectedTicket}` : '-'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={result.matches ? 'secondary' : 'destructive'}>
+                        {result.matches ? 'Match' : 'Mismatch'}
+                      </Badge>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            {verification.discarded.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  <AlertTriangle className="h-4 w-4 text-amber-500" />
+                  Discarded picks
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The seed drew these tickets, but the organiser skipped them because their owner
+                  was over an eligibility limit. Check each reason against the event's published
+                  rules.
+                </p>
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Ticket</TableHead>
+                      <TableHead>Owner</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {verification.discarded.map(skip => (
+                      <TableRow key={skip.ticketNumber}>
+                        <TableCell className="font-mono">#{skip.ticketNumber}</TableCell>
+                        <TableCell>{skip.ownerName ?? '-'}</TableCell>
+                        <TableCell className="text-sm">{skip.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const VerifyPage = () => {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [recordText, setRecordText] = useState('');
+  const [record, setRecord] = useState<DrawRecordFile | null>(null);
+
+  const loadRecord = (text: string) => {
+    try {
+      setRecord(parseDrawRecordFile(text));
+    } catch (error) {
+      setRecord(null);
+      toast({
+        title: 'Invalid draw record',
+        description: error instanceof Error ? error.message : String(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRecordUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const text = await readFile(file);
+    setRecordText(text);
+    loadRecord(text);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold">Verify a Draw</h1>
+          <p className="text-sm text-muted-foreground">
+            Recompute provably fair draw results from a published record and ticket pool
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Draw Record</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Textarea
+              placeholder="Paste the exported draw record (JSON)"
+              value={recordText}
+              onChange={e => setRecordText(e.target.value)}
+              className="font-mono text-xs h-32"
+            />
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4 mr-2" />
+                Upload Record
+              </Button>
+              <Button onClick={() => loadRecord(recordText)} disabled={!recordText.trim()} className="flex-1">
+                Load
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".json"
+                onChange={handleRecordUpload}
+                className="hidden"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {record?.draws.length === 0 && (
+          <div className="text-center text-muted-foreground py-10">
+            This record contains no draws
+          </div>
+        )}
+
+        {record?.draws.map(draw => (
+          <DrawVerifier key={`${draw.drawNumber}-${draw.fairness.commitment}`} draw={draw} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VerifyPage;
@@ -8,8 +8,19 @@ export interface Prize {
   category: Category;
   isAssigned: boolean;
   assignedTo?: string;
+  /** 1 is the grand prize; unranked prizes count as the smallest. */
+  rank?: number;
 }
 
+/**
+ * How a draw hands its prizes to the winners, in draw order:
+ *   fixed     - prizes in the order they were added
+ *   random    - a random shuffle of the available prizes
+ *   ascending - smallest prize first, grand prize (rank 1) last
+ *   manual    - prizes picked by the organiser before the draw
+ */
+export type PrizeOrder = 'fixed' | 'random' | 'ascending' | 'manual';
+
 export interface DrawResult {
   id: string;
   ticketNumber: string;
@@ -17,6 +28,74 @@ export interface DrawResult {
   category: Category;
   timestamp: Date;
   ownerName?: string;
+  ownerId?: string;
+  removedTickets?: string[];
+  voided?: VoidedResult;
+  /** Id of the voided result this one was redrawn for. */
+  replacesId?: string;
+  /** Standby tickets in rank order; they stay in the pool until promoted. */
+  alternates?: Alternate[];
+  /** Rank of the alternate that was promoted to this result. */
+  promotedAlternate?: number;
+}
+
+export interface Alternate {
+  rank: number;
+  ticketNumber: string;
+  ownerId?: string;
+  ownerName?: string;
+}
+
+export interface VoidedResult {
+  reason: string;
+  voidedAt: Date;
+  ticketReturned: boolean;
+  replacedById?: string;
+}
+
+export interface VoidOptions {
+  /**
+   * Put the ticket back into draws; otherwise it stays in the pool as void,
+   * so adding it again (from owners, a scan or an import) cannot revive it.
+   * The owner's other tickets the win removed come back in both cases.
+   */
+  returnTicket: boolean;
+  /** Hand the prize to the next alternate instead of redrawing at random. */
+  promoteAlternate: boolean;
+}
+
+export interface DrawOptions {
+  alternatesPerPrize?: number;
+  prizeOrder?: PrizeOrder;
+  /** Prizes for the winners in draw order, required for the manual order. */
+  prizeIds?: string[];
+  /** Programme round this draw runs. */
+  roundId?: string;
+  onAnimationTick?: (tickets: string[]) => void;
+}
+
+export interface SkippedTicket {
+  ticketNumber: string;
+  ownerName?: string;
+  reason: string;
+}
+
+export interface EligibilityRules {
+  maxWinsPerOwner: number | null;
+  maxWinsPerOwnerPerCategory: number | null;
+  removeOwnerTicketsOnWin: boolean;
+}
+
+export interface FairnessProof {
+  algorithm: string;
+  commitment: string;
+  poolHash: string;
+  poolSize: number;
+  seed: string;
+}
+
+export interface DrawCommitment extends FairnessProof {
+  createdAt: Date;
 }
 
 export interface DrawHistoryEntry {
@@ -25,10 +104,199 @@ export interface DrawHistoryEntry {
   category: Category;
   groupSize: GroupSize;
   timestamp: Date;
+  fairness?: FairnessProof;
+  /**
+   * Prizes of the category that were available, in the order they were added.
+   * Kept for provably fair draws, whose prize order can then be recomputed.
+   */
+  availablePrizes?: Pick<Prize, 'name' | 'rank'>[];
+  skipped?: SkippedTicket[];
+  alternatesPerPrize?: number;
+  prizeOrder?: PrizeOrder;
+  /** 1-based position in the draw programme when the round was run. */
+  round?: number;
+  /** Tickets knocked out of an elimination draw, in elimination order. */
+  eliminated?: EliminatedTicket[];
+}
+
+export interface EliminatedTicket {
+  ticketNumber: string;
+  round: number;
+}
+
+/** A prize for the ticket whose elimination leaves `survivorCount` tickets. */
+export interface ConsolationPrize {
+  survivorCount: number;
+  prizeId: string;
+}
+
+export interface EliminationSetup {
+  grandPrizeId: string;
+  perRound: number;
+  consolation: ConsolationPrize[];
+}
+
+/** A reverse raffle in progress: the last ticket standing wins the grand prize. */
+export interface EliminationGame extends EliminationSetup {
+  id: string;
+  startedAt: Date;
+  poolSize: number;
+  survivors: string[];
+  eliminated: EliminatedTicket[];
+  round: number;
+  results: DrawResult[];
+  finished: boolean;
+}
+
+export type RoundStatus = 'pending' | 'drawn' | 'skipped';
+
+export interface DrawRound {
+  id: string;
+  category: Category;
+  groupSize: GroupSize;
+  /** Wait before the next round can start. */
+  pauseSeconds: number;
+  status: RoundStatus;
+}
+
+export interface DrawRecord {
+  drawNumber: number;
+  category: Category;
+  groupSize: GroupSize;
+  timestamp: string;
+  fairness: FairnessProof;
+  prizeOrder?: PrizeOrder;
+  results: {
+    ticketNumber: string;
+    prizeName: string;
+    removedTickets?: string[];
+    voidReason?: string;
+    alternates?: string[];
+  }[];
+  /** Picks discarded because the owner was over an eligibility limit. */
+  skipped?: SkippedTicket[];
+  /** Prizes available before the draw, in the order they were added (step 6). */
+  prizes?: Pick<Prize, 'name' | 'rank'>[];
+}
+
+export interface DrawRecordFile {
+  type: 'raffle-draw-record';
+  version: number;
+  draws: DrawRecord[];
 }
 
 export interface TicketOwner {
   id: string;
   name: string;
   ticketNumbers: string[];
+  weight?: number;
+  email?: string;
+  phone?: string;
+  address?: string;
+  organisation?: string;
+  notes?: string;
+}
+
+/** Optional contact details of an owner. */
+export type OwnerProfile = Pick<TicketOwner, 'email' | 'phone' | 'address' | 'organisation' | 'notes'>;
+
+export type TicketStatus = 'sold' | 'unsold' | 'void' | 'refunded';
+
+/** Tickets sharing a status other than sold; tickets in no group are sold. */
+export interface TicketStatusGroup {
+  status: Exclude<TicketStatus, 'sold'>;
+  /** Why void or refunded tickets were taken out. */
+  reason?: string;
+  tickets: string[];
+}
+
+/** What a scan does: add the ticket to the pool, or mark a pool ticket sold. */
+export type ScanMode = 'add' | 'sell';
+
+/**
+ * Result of scanning a ticket: `duplicate` when it was already added or sold,
+ * `unknown` when a ticket to sell is not in the pool, `invalid` when the code
+ * is not a ticket number of the event.
+ */
+export type ScanOutcome = 'added' | 'sold' | 'duplicate' | 'unknown' | 'void' | 'invalid';
+
+/** A price for a number of tickets bought together, e.g. 5 tickets for 20. */
+export interface PriceTier {
+  id: string;
+  name: string;
+  ticketCount: number;
+  price: number;
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'transfer' | 'other';
+
+/** One purchase in the sales ledger. */
+export interface Sale {
+  id: string;
+  timestamp: Date;
+  buyerName: string;
+  seller: string;
+  tickets: string[];
+  /** Tickets the sale put into the pool; deleting the sale takes them out again. */
+  addedTickets?: string[];
+  paymentMethod: PaymentMethod;
+  amount: number;
+}
+
+/**
+ * Tickets handed to a seller to sell. They stay out of draws until they are
+ * recorded as sold, or until the book is reconciled.
+ */
+export interface SellerBook {
+  id: string;
+  seller: string;
+  createdAt: Date;
+  tickets: string[];
+  /** Unsold tickets the seller handed back. */
+  returnedTickets: string[];
+  reconciledAt?: Date;
+}
+
+/** What reconciling a book makes of tickets neither sold nor returned. */
+export type MissingTicketHandling = 'sold' | 'void';
+
+/** Printed ticket numbers: prefix, number zero-padded to `digits`, suffix. */
+export interface TicketFormat {
+  prefix: string;
+  digits: number;
+  suffix: string;
+}
+
+export interface RaffleEventData {
+  tickets: string[];
+  ticketWeights: Record<string, number>;
+  /** Null when ticket numbers are free-form. */
+  ticketFormat: TicketFormat | null;
+  ticketStatuses: TicketStatusGroup[];
+  priceTiers: PriceTier[];
+  sales: Sale[];
+  sellerBooks: SellerBook[];
+  eligibilityRules: EligibilityRules;
+  prizes: Prize[];
+  categories: Category[];
+  owners: TicketOwner[];
+  history: DrawHistoryEntry[];
+  programme: DrawRound[];
+  elimination: EliminationGame | null;
+  pendingCommitment?: DrawCommitment | null;
+}
+
+export interface RaffleEvent {
+  id: string;
+  name: string;
+  createdAt: Date;
+  isArchived: boolean;
+  data: RaffleEventData;
+}
+
+export interface DuplicateEventOptions {
+  tickets: boolean;
+  prizes: boolean;
+  categories: boolean;
+  owners: boolean;
 }
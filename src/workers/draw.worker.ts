@@ -0,0 +1,12 @@
+import { DrawMessage, DrawResponse, fromDrawMessage, performDraw } from '@/lib/drawRequest';
+
+// Picks winners off the main thread; one request per worker
+self.onmessage = async (event: MessageEvent<DrawMessage>) => {
+  let response: DrawResponse;
+  try {
+    response = { outcome: await performDraw(fromDrawMessage(event.data)) };
+  } catch (error) {
+    response = { error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};